@@ -6,7 +6,24 @@ export const CACHE_TTL = {
   COMPANY_LIST: 86400,
   COMPANY_INFO: 3600,
   FINANCIAL_DATA: 3600,
+  FINANCIAL_PERIOD_FILED: 2592000,   // 제출된 보고서 (정정 공시 반영을 위해 30일)
+  FINANCIAL_PERIOD_PENDING: 3600,    // 제출기한 전 미제출 보고서
+  FINANCIAL_PERIOD_MISSING: 86400,   // 제출기한이 지났는데 데이터가 없는 보고서
+  STATEMENTS: 86400,
+  DIVIDENDS: 86400,
+  OWNERSHIP: 3600,
+  INSIDER_TRADES: 1800,
+  EXECUTIVES: 86400,
+  EVENTS: 3600,
   DISCLOSURES: 1800,
+  LATEST_DISCLOSURES: 300,
+  DOCUMENT: 604800,
+  SEGMENTS: 86400,
+  COMPARE: 3600,
+  COMPANY_INDEX: 2592000,
+  RATIO_SNAPSHOT: 2592000,
+  FUNDAMENTALS: 604800,
+  JOB_RESULTS: 2592000,
   NEWS: 900
 } as const;
 
@@ -14,15 +31,46 @@ export const CACHE_TTL = {
 export const SWR_CONFIG = {
   COMPANY_INFO: { maxAge: 3600, staleTime: 1800 },
   FINANCIAL_DATA: { maxAge: 3600, staleTime: 1800 },
+  STATEMENTS: { maxAge: 86400, staleTime: 43200 },
+  DIVIDENDS: { maxAge: 86400, staleTime: 43200 },
+  OWNERSHIP: { maxAge: 3600, staleTime: 1800 },
+  INSIDER_TRADES: { maxAge: 1800, staleTime: 900 },
+  EXECUTIVES: { maxAge: 86400, staleTime: 43200 },
+  EVENTS: { maxAge: 3600, staleTime: 1800 },
   DISCLOSURES: { maxAge: 1800, staleTime: 900 },
+  LATEST_DISCLOSURES: { maxAge: 300, staleTime: 120 },
+  DOCUMENT: { maxAge: 604800, staleTime: 86400 },
+  SEGMENTS: { maxAge: 86400, staleTime: 43200 },
+  COMPARE: { maxAge: 3600, staleTime: 1800 },
+  INDUSTRY: { maxAge: 3600, staleTime: 1800 },
   NEWS: { maxAge: 900, staleTime: 450 }
 } as const;
 
 export const CACHE_KEYS = {
   COMPANY_LIST: 'company-list',
   COMPANY_INFO: (corpCode: string) => `company-info:${corpCode}`,
-  FINANCIAL: (corpCode: string, date: string) => `financial:${corpCode}:${date}`,
-  DISCLOSURES: (corpCode: string) => `disclosures:${corpCode}`,
+  COMPANY_INDEX: 'company-index',
+  RATIO_SNAPSHOT: 'ratio-snapshot',
+  FUNDAMENTALS: 'fundamentals',
+  JOB_RESULTS: (job: string) => `job-results:${job}`,
+  FINANCIAL: (corpCode: string, fs: string = 'auto', quarters: number = 12, cagr: boolean = false) =>
+    `financial:${corpCode}:${fs}:${quarters}${cagr ? ':cagr' : ''}`,
+  FINANCIAL_PERIOD: (corpCode: string, year: string, reportCode: string, fs: string) =>
+    `financial-period:${corpCode}:${year}:${reportCode}:${fs}`,
+  STATEMENTS: (corpCode: string, year: string, reportCode: string, fs: string, source: string = 'api') =>
+    `statements:${corpCode}:${year}:${reportCode}:${fs}:${source}`,
+  DIVIDENDS: (corpCode: string, years: number) => `dividends:${corpCode}:${years}`,
+  OWNERSHIP: (corpCode: string) => `ownership:${corpCode}`,
+  INSIDER_TRADES: (corpCode: string) => `insider-trades:${corpCode}`,
+  EXECUTIVES: (corpCode: string, year: string) => `executives:${corpCode}:${year}`,
+  EVENTS: (corpCode: string, from: string, to: string) => `events:${corpCode}:${from}:${to}`,
+  DISCLOSURES: (corpCode: string, query: string = 'latest') => `disclosures:${corpCode}:${query}`,
+  LATEST_DISCLOSURES: (query: string) => `disclosures-latest:${query}`,
+  DOCUMENT: (rceptNo: string) => `document:${rceptNo}`,
+  SEGMENTS: (corpCode: string, year: string, reportCode: string, fs: string, axis: string, years: number) =>
+    `segments:${corpCode}:${year}:${reportCode}:${fs}:${axis}:${years}`,
+  COMPARE: (corpCodes: string[], fs: string, quarters: number) =>
+    `compare:${[...corpCodes].sort().join(',')}:${fs}:${quarters}`,
   NEWS: (corpCode: string) => `news:${corpCode}`
 } as const;
 
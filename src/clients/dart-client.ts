@@ -7,22 +7,87 @@
 
 import type { 
   Company, 
+  Market,
   CompanyInfo, 
   FinancialStatement, 
   Disclosure, 
-  FinancialDetails 
+  DisclosureSearchParams,
+  DisclosurePaging,
+  MarketDisclosure,
+  FinancialDetails,
+  DARTAccountItem,
+  AccountMappingReport,
+  FinancialStatementBasis,
+  FinancialStatementMode,
+  FullFinancialStatements,
+  DividendYear,
+  Shareholder,
+  OwnershipChange,
+  InsiderTrade,
+  Executive,
+  ExecutiveCompensation,
+  MaterialEvent,
+  MaterialEventType,
+  DisclosureDocumentFile,
+  XbrlFinancialStatements,
+  SegmentAxis,
+  SegmentPeriod,
+  QuarterPeriod,
+  FlowMetric,
+  CompanyPeriodSummary
 } from '../types';
 import { unzipSync } from 'fflate';
 import { XMLParser } from 'fast-xml-parser';
+import { normalizeStatements, parseStatementAmount } from '../processors/statement-processor';
+import { findAccount, mapAccounts, resolveIndustryProfile } from '../processors/account-mapper';
+import { parseDividendRows, mergeDividendHistory } from '../processors/dividend-processor';
+import type { DARTDividendItem } from '../processors/dividend-processor';
+import { MATERIAL_EVENT_DEFINITIONS, MATERIAL_EVENT_TYPES } from './dart-events';
+import { decodeDocument, parseDisclosureDocument } from '../processors/document-parser';
+import { parseXbrlPackage } from '../processors/xbrl-parser';
+import { extractSegments, mergeSegmentPeriods } from '../processors/segment-processor';
+import { createQuarterPeriod, isQuarterReportDue } from '../processors/financial-processor';
+import { RequestScheduler, requestKey } from './request-scheduler';
+import type { SchedulerConfig } from './request-scheduler';
 
 const DART_BASE_URL = 'https://opendart.fss.or.kr/api';
 
+// 보고서 코드: 1분기=11013, 반기=11012, 3분기=11014, 사업=11011
+export const REPORT_CODES = {
+  Q1: '11013',
+  Q2: '11012',
+  Q3: '11014',
+  Q4: '11011'
+} as const;
+
+// DART 상태 코드 013: 조회된 데이터가 없음
+const DART_STATUS_NO_DATA = '013';
+// 013 조회된 데이터 없음, 014 파일이 존재하지 않음
+const DART_STATUS_NOT_FOUND = [DART_STATUS_NO_DATA, '014'];
+
 interface DARTResponse<T> {
   status: string;
   message: string;
   list?: T[];
+  page_no?: number;
+  page_count?: number;
+  total_count?: number;
+  total_page?: number;
 }
 
+// 법인구분 (corp_cls): Y 유가증권, K 코스닥, N 코넥스, E 기타
+const CORP_CLASS_MARKETS: Record<string, Market> = {
+  Y: 'KOSPI',
+  K: 'KOSDAQ',
+  N: 'KONEX'
+};
+
+const MARKET_CORP_CLASSES: Record<Market, string> = {
+  KOSPI: 'Y',
+  KOSDAQ: 'K',
+  KONEX: 'N'
+};
+
 interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
@@ -36,6 +101,15 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
 const sleep = (ms: number): Promise<void> => 
   new Promise(resolve => setTimeout(resolve, ms));
 
+/**
+ * One year before a YYYYMMDD date (YYYYMMDD)
+ */
+function oneYearBefore(date: string): string {
+  // 2월 29일은 Date.UTC가 3월 1일로 보정
+  const time = Date.UTC(Number(date.slice(0, 4)) - 1, Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)));
+  return new Date(time).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
 async function withRetry<T>(
   operation: () => Promise<T>,
   config: RetryConfig = DEFAULT_RETRY_CONFIG
@@ -73,15 +147,34 @@ export class DARTAPIError extends Error {
 export class DARTClient {
   private apiKey: string;
   private baseUrl: string;
+  private scheduler: RequestScheduler;
 
-  constructor(apiKey: string, baseUrl: string = DART_BASE_URL) {
+  constructor(
+    apiKey: string,
+    baseUrl: string = DART_BASE_URL,
+    schedulerConfig: Partial<SchedulerConfig> = {}
+  ) {
     this.apiKey = apiKey;
     this.baseUrl = baseUrl;
+    this.scheduler = new RequestScheduler(schedulerConfig);
   }
 
-  private async request<T>(
+  /**
+   * 모든 API 호출은 스케줄러를 거침 (동시 요청 수/분당 예산 제한, 동일 요청 병합)
+   */
+  private request<T>(
     endpoint: string,
     params: Record<string, string> = {}
+  ): Promise<T> {
+    return this.scheduler.schedule(
+      requestKey(endpoint, params),
+      () => this.fetchJSON<T>(endpoint, params)
+    );
+  }
+
+  private async fetchJSON<T>(
+    endpoint: string,
+    params: Record<string, string>
   ): Promise<T> {
     const url = new URL(`${this.baseUrl}${endpoint}`);
     url.searchParams.set('crtfc_key', this.apiKey);
@@ -128,28 +221,64 @@ export class DARTClient {
     return data as T;
   }
 
-  async getCompanyList(): Promise<Company[]> {
-    const url = `${this.baseUrl}/corpCode.xml?crtfc_key=${this.apiKey}`;
+  /**
+   * ZIP 파일을 반환하는 API 조회 (corpCode.xml, document.xml)
+   * 오류 시 DART는 ZIP 대신 XML/JSON 상태 응답을 반환
+   */
+  private requestZip(
+    endpoint: string,
+    params: Record<string, string> = {}
+  ): Promise<Record<string, Uint8Array>> {
+    return this.scheduler.schedule(
+      requestKey(endpoint, params),
+      () => this.fetchZip(endpoint, params)
+    );
+  }
+
+  private async fetchZip(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<Record<string, Uint8Array>> {
+    const url = new URL(`${this.baseUrl}${endpoint}`);
+    url.searchParams.set('crtfc_key', this.apiKey);
+    
+    Object.entries(params).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
     
-    const response = await fetch(url);
+    const response = await fetch(url.toString());
     
     if (!response.ok) {
       throw new DARTAPIError(
-        `Failed to fetch company list: ${response.statusText}`,
+        `DART API request failed: ${response.statusText}`,
         response.status
       );
     }
     
-    const arrayBuffer = await response.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
+    const uint8Array = new Uint8Array(await response.arrayBuffer());
+    
+    // ZIP 시그니처(PK)가 아니면 상태 응답으로 처리
+    if (uint8Array[0] !== 0x50 || uint8Array[1] !== 0x4b) {
+      const body = new TextDecoder().decode(uint8Array);
+      const status = body.match(/<status>(\d+)<\/status>/)?.[1] || body.match(/"status"\s*:\s*"(\d+)"/)?.[1];
+      const message = body.match(/<message>([^<]*)<\/message>/)?.[1] || body.match(/"message"\s*:\s*"([^"]*)"/)?.[1];
+      throw new DARTAPIError(
+        message || 'DART API returned a non-ZIP response',
+        status && DART_STATUS_NOT_FOUND.includes(status) ? 404 : 400,
+        status
+      );
+    }
     
     // ZIP 압축 해제 (fflate 사용)
-    let unzipped;
     try {
-      unzipped = unzipSync(uint8Array);
+      return unzipSync(uint8Array);
     } catch (unzipError) {
-      throw new DARTAPIError(`Failed to unzip company list: ${unzipError}`, 500);
+      throw new DARTAPIError(`Failed to unzip ${endpoint}: ${unzipError}`, 500);
     }
+  }
+
+  async getCompanyList(): Promise<Company[]> {
+    const unzipped = await this.requestZip('/corpCode.xml');
     
     const xmlData = new TextDecoder().decode(unzipped['CORPCODE.xml']);
     
@@ -168,8 +297,8 @@ export class DARTClient {
         corpCode: String(item.corp_code),
         corpName: String(item.corp_name),
         stockCode: String(item.stock_code).trim(),
-        market: item.corp_cls === 'Y' ? 'KOSPI' : 
-                (item.corp_cls === 'K' ? 'KOSDAQ' : 'KONEX')
+        // corpCode.xml에는 법인구분(corp_cls)이 없어 시장은 null (기업개황 조회 시 확인)
+        market: null
       }));
     
     return companies;
@@ -185,10 +314,11 @@ export class DARTClient {
         corpCode: response.corp_code,
         corpName: response.corp_name,
         stockCode: response.stock_code || '',
-        market: response.corp_cls === 'Y' ? 'KOSPI' : 'KOSDAQ',
+        market: CORP_CLASS_MARKETS[response.corp_cls] ?? null,
         ceoName: response.ceo_nm,
         industry: response.induty_code,
-        address: response.adres
+        address: response.adres,
+        fiscalYearEndMonth: parseInt(response.acc_mt, 10) || 12
       };
     });
   }
@@ -196,104 +326,314 @@ export class DARTClient {
   async getFinancialStatements(
     corpCode: string,
     year: string,
-    reportCode: string = '11013'
+    reportCode: string = '11013',
+    fs: FinancialStatementMode = 'CFS',
+    industryCode?: string
   ): Promise<FinancialStatement[]> {
     return withRetry(async () => {
-      // 요약 재무정보 API 사용 (fnlttSinglAcnt) - 누적값 제공
-      const response = await this.request<DARTResponse<any>>(
-        '/fnlttSinglAcnt.json',
-        {
-          corp_code: corpCode,
-          bsns_year: year,
-          reprt_code: reportCode
-        }
-      );
-      
-      if (!response.list || response.list.length === 0) return [];
-
-      // 연결재무제표(CFS)만 필터링
-      const cfsList = response.list.filter((item: any) => item.fs_div === 'CFS');
-      if (cfsList.length === 0) return [];
+      // 전체 재무제표 API 사용 (fnlttSinglAcntAll) - 손익 누적값 + 현금흐름표 제공
+      // auto: 연결재무제표가 없으면 별도재무제표 사용
+      const { list: fsList, fs: basis } = await this.requestAccountList(corpCode, year, reportCode, fs);
+      if (fsList.length === 0) return [];
 
       // 응답 데이터의 실제 연도 확인
-      const firstItem = cfsList[0];
+      const firstItem = fsList[0];
       if (firstItem.bsns_year && firstItem.bsns_year !== year) {
         return [];
       }
 
-      const quarterMap: Record<string, 'Q1' | 'Q2' | 'Q3' | 'Q4'> = {
-        '11013': 'Q1', '11012': 'Q2', '11014': 'Q3', '11011': 'Q4'
-      };
+      return [this.toFinancialStatement(fsList, year, reportCode, basis, industryCode)];
+    });
+  }
+
+  /**
+   * 계정 목록 → 누적 손익/현금흐름 (fnlttSinglAcntAll, fnlttMultiAcnt 공통)
+   * 요약 재무정보(fnlttMultiAcnt)는 현금흐름표가 없어 현금흐름 항목은 0
+   */
+  private toFinancialStatement(
+    list: DARTAccountItem[],
+    year: string,
+    reportCode: string,
+    basis: FinancialStatementBasis,
+    industryCode?: string
+  ): FinancialStatement {
+    const quarterMap: Record<string, 'Q1' | 'Q2' | 'Q3' | 'Q4'> = {
+      '11013': 'Q1', '11012': 'Q2', '11014': 'Q3', '11011': 'Q4'
+    };
+    
+    // 손익계산서, 현금흐름표 항목 찾기 (계정 매핑 규칙 적용)
+    const { items, report } = mapAccounts(
+      list,
+      ['revenue', 'operatingProfit', 'netIncome', 'operatingCashFlow', 'purchaseOfPPE', 'purchaseOfIntangibles'],
+      resolveIndustryProfile(industryCode)
+    );
+    
+    // Q1은 thstrm_amount 사용, Q2/Q3/Q4는 thstrm_add_amount(누적) 사용
+    // 현금흐름표는 thstrm_amount 자체가 누적값
+    const isQ1 = reportCode === '11013';
+    
+    const getAmount = (item: any) => {
+      if (!item) return 0;
+      if (isQ1) {
+        return this.parseAmount(item.thstrm_amount);
+      }
+      // Q2, Q3, Q4는 누적값(thstrm_add_amount) 사용
+      return this.parseAmount(item.thstrm_add_amount || item.thstrm_amount);
+    };
+    
+    // 전기 동기 누적값 (이후 보고서에서 재작성된 값일 수 있음)
+    // Q1: frmtrm_q_amount, Q2/Q3: frmtrm_add_amount, 사업보고서/현금흐름표: frmtrm_amount
+    const getPriorAmount = (item: any): number | null => {
+      if (!item) return null;
+      const raw = isQ1
+        ? item.frmtrm_q_amount || item.frmtrm_add_amount || item.frmtrm_amount
+        : item.frmtrm_add_amount || item.frmtrm_amount;
+      return this.parseNumber(raw);
+    };
+    
+    // 설비투자는 유출 부호 표기가 회사마다 달라 절대값 사용
+    const operatingCashFlow = getAmount(items.operatingCashFlow);
+    const capex = Math.abs(getAmount(items.purchaseOfPPE)) + Math.abs(getAmount(items.purchaseOfIntangibles));
+    
+    const priorPeriod: Partial<Record<FlowMetric, number>> = {};
+    for (const metric of ['revenue', 'operatingProfit', 'netIncome', 'operatingCashFlow'] as const) {
+      const value = getPriorAmount(items[metric]);
+      if (value !== null) priorPeriod[metric] = value;
+    }
+    const priorPPE = getPriorAmount(items.purchaseOfPPE);
+    const priorIntangibles = getPriorAmount(items.purchaseOfIntangibles);
+    if (priorPPE !== null || priorIntangibles !== null) {
+      priorPeriod.capex = Math.abs(priorPPE ?? 0) + Math.abs(priorIntangibles ?? 0);
+    }
+    
+    return {
+      year,
+      quarter: quarterMap[reportCode] || 'Q4',
+      revenue: getAmount(items.revenue),
+      operatingProfit: getAmount(items.operatingProfit),
+      netIncome: getAmount(items.netIncome),
+      operatingCashFlow,
+      capex,
+      freeCashFlow: operatingCashFlow - capex,
+      fsDiv: basis,
+      accountMapping: report,
+      rceptNo: list[0]?.rcept_no,
+      priorPeriod: Object.keys(priorPeriod).length > 0 ? priorPeriod : undefined
+    };
+  }
+
+  /**
+   * 다중회사 주요계정 조회 (fnlttMultiAcnt)
+   * 한 번의 호출로 여러 회사의 요약 재무상태표/손익계산서 조회 (회사별 corp_code, 없으면 stock_code로 구분)
+   * stockCodes: corpCode → stockCode (응답에 corp_code가 없을 때 회사 식별용)
+   */
+  async getMultiCompanySummaries(
+    corpCodes: string[],
+    year: string,
+    reportCode: string = REPORT_CODES.Q4,
+    fs: FinancialStatementMode = 'auto',
+    stockCodes: Record<string, string> = {}
+  ): Promise<Record<string, CompanyPeriodSummary>> {
+    const rows = await withRetry(() =>
+      this.requestList<DARTAccountItem>('/fnlttMultiAcnt.json', {
+        corp_code: corpCodes.join(','),
+        bsns_year: year,
+        reprt_code: reportCode
+      })
+    );
+    
+    const corpByStock = new Map(Object.entries(stockCodes).map(([corpCode, stockCode]) => [stockCode, corpCode]));
+    const byCompany = new Map<string, DARTAccountItem[]>();
+    for (const row of rows) {
+      const corpCode = row.corp_code || corpByStock.get(row.stock_code || '');
+      if (!corpCode) continue;
+      if (!byCompany.has(corpCode)) byCompany.set(corpCode, []);
+      byCompany.get(corpCode)!.push(row);
+    }
+    
+    const summaries: Record<string, CompanyPeriodSummary> = {};
+    
+    for (const [corpCode, companyRows] of byCompany) {
+      // auto: 연결재무제표가 없으면 별도재무제표 사용
+      const bases: FinancialStatementBasis[] = fs === 'auto' ? ['CFS', 'OFS'] : [fs];
+      const basis = bases.find(b => companyRows.some(row => row.fs_div === b));
+      if (!basis) continue;
       
-      // 손익계산서 항목 찾기
-      const revenueItem = cfsList.find(
-        (item: any) => item.sj_div === 'IS' && item.account_nm === '매출액'
+      const list = companyRows.filter(row => row.fs_div === basis);
+      const { items } = mapAccounts(
+        list,
+        ['totalAssets', 'totalLiabilities', 'totalEquity', 'currentAssets', 'currentLiabilities']
       );
-      const operatingProfitItem = cfsList.find(
-        (item: any) => item.sj_div === 'IS' && item.account_nm === '영업이익'
-      );
-      const netIncomeItem = cfsList.find(
-        (item: any) => item.sj_div === 'IS' && 
-          (item.account_nm === '당기순이익(손실)' || item.account_nm === '당기순이익')
-      );
-      
-      // Q1은 thstrm_amount 사용, Q2/Q3/Q4는 thstrm_add_amount(누적) 사용
-      const isQ1 = reportCode === '11013';
       
-      const getAmount = (item: any) => {
-        if (!item) return 0;
-        if (isQ1) {
-          return this.parseAmount(item.thstrm_amount);
+      summaries[corpCode] = {
+        statement: this.toFinancialStatement(list, year, reportCode, basis),
+        balance: {
+          totalAssets: this.parseNumber(items.totalAssets?.thstrm_amount),
+          totalLiabilities: this.parseNumber(items.totalLiabilities?.thstrm_amount),
+          totalEquity: this.parseNumber(items.totalEquity?.thstrm_amount),
+          currentAssets: this.parseNumber(items.currentAssets?.thstrm_amount),
+          currentLiabilities: this.parseNumber(items.currentLiabilities?.thstrm_amount)
         }
-        // Q2, Q3, Q4는 누적값(thstrm_add_amount) 사용
-        return this.parseAmount(item.thstrm_add_amount || item.thstrm_amount);
       };
+    }
+    
+    return summaries;
+  }
+
+  /**
+   * 단일회사 전체 재무제표 조회 (fnlttSinglAcntAll)
+   * BS/IS/CIS/CF/SCE 전체 계정을 sj_div별로 정규화하여 반환
+   */
+  async getFullStatements(
+    corpCode: string,
+    year: string,
+    reportCode: string = REPORT_CODES.Q4,
+    fs: FinancialStatementMode = 'CFS'
+  ): Promise<FullFinancialStatements> {
+    return withRetry(async () => {
+      const { list, fs: basis } = await this.requestAccountList(corpCode, year, reportCode, fs);
       
-      return [{
+      if (list.length === 0) {
+        throw new DARTAPIError('재무제표 데이터가 없습니다.', 404, DART_STATUS_NO_DATA);
+      }
+
+      return {
+        corpCode,
         year,
-        quarter: quarterMap[reportCode] || 'Q4',
-        revenue: getAmount(revenueItem),
-        operatingProfit: getAmount(operatingProfitItem),
-        netIncome: getAmount(netIncomeItem)
-      }];
+        reportCode,
+        fs: basis,
+        source: 'api',
+        rceptNo: list[0].rcept_no || null,
+        currency: list[0].currency || 'KRW',
+        statements: normalizeStatements(list)
+      };
     });
   }
 
-  async getDisclosures(corpCode: string, limit: number = 5): Promise<Disclosure[]> {
-    // 정기 공시만 필터링 (pblntf_ty=A), 최근 2년간
-    const twoYearsAgo = new Date();
-    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-    const bgn_de = twoYearsAgo.toISOString().slice(0, 10).replace(/-/g, '');
+  /**
+   * XBRL 재무제표 원본 조회 (fnlttXbrl)
+   * 접수번호는 fnlttSinglAcntAll 응답에서 확인 후 XBRL 패키지를 내려받아
+   * 동일한 계정 행/재무제표 모델로 변환 (주석 항목은 NOTES 구분)
+   */
+  async getXbrlStatements(
+    corpCode: string,
+    year: string,
+    reportCode: string = REPORT_CODES.Q4,
+    fs: FinancialStatementMode = 'CFS'
+  ): Promise<XbrlFinancialStatements> {
+    const { list, fs: basis } = await withRetry(() =>
+      this.requestAccountList(corpCode, year, reportCode, fs)
+    );
+    const rceptNo = list[0]?.rcept_no;
     
-    const url = new URL(`${this.baseUrl}/list.json`);
-    url.searchParams.set('crtfc_key', this.apiKey);
-    url.searchParams.set('corp_code', corpCode);
-    url.searchParams.set('pblntf_ty', 'A');
-    url.searchParams.set('bgn_de', bgn_de);
-    url.searchParams.set('page_count', '20'); // 중복 제거를 위해 더 많이 가져옴
+    if (!rceptNo) {
+      throw new DARTAPIError('재무제표 데이터가 없습니다.', 404, DART_STATUS_NO_DATA);
+    }
     
-    const response = await fetch(url.toString(), {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'application/json'
+    const files = await withRetry(() =>
+      this.requestZip('/fnlttXbrl.xml', { rcept_no: rceptNo, reprt_code: reportCode })
+    );
+    const { facts, items, labels } = parseXbrlPackage(files, basis);
+    
+    if (items.length === 0) {
+      throw new DARTAPIError('XBRL 재무제표 데이터가 없습니다.', 404, DART_STATUS_NO_DATA);
+    }
+    
+    // 주석 수준 항목 (분/반기는 누적값)
+    const { items: noteItems, report } = mapAccounts(items, ['researchAndDevelopment', 'depreciation']);
+    const noteAmount = (item: DARTAccountItem | undefined) =>
+      item ? parseStatementAmount(item.thstrm_add_amount ?? item.thstrm_amount) : null;
+    
+    // 팩트에 사용된 차원 멤버 라벨만 포함
+    const memberLabels: Record<string, string> = {};
+    for (const fact of facts) {
+      for (const member of Object.values(fact.dimensions)) {
+        const label = labels.get(member);
+        if (label) memberLabels[member] = label;
       }
-    });
+    }
+    
+    return {
+      corpCode,
+      year,
+      reportCode,
+      fs: basis,
+      source: 'xbrl',
+      rceptNo,
+      currency: items.find(item => item.currency)?.currency || 'KRW',
+      statements: normalizeStatements(items),
+      facts,
+      memberLabels,
+      notes: {
+        researchAndDevelopment: noteAmount(noteItems.researchAndDevelopment),
+        depreciation: noteAmount(noteItems.depreciation)
+      },
+      accountMapping: report
+    };
+  }
+
+  /**
+   * 부문별(사업부문/지역) 매출·영업이익 조회 (XBRL 영업부문 주석)
+   * 사업보고서는 보고서당 당기/전기 2개년이 있으므로 2년 간격으로 조회
+   */
+  async getSegments(
+    corpCode: string,
+    year: string,
+    reportCode: string = REPORT_CODES.Q4,
+    fs: FinancialStatementMode = 'CFS',
+    axis: SegmentAxis = 'business',
+    years: number = 2
+  ): Promise<{ fs: FinancialStatementBasis; rceptNo: string | null; periods: SegmentPeriod[] }> {
+    const latest = await this.getXbrlStatements(corpCode, year, reportCode, fs);
+    const reports = [extractSegments(latest.facts, axis, latest.fs, latest.memberLabels)];
     
-    if (!response.ok) return [];
+    if (reportCode === REPORT_CODES.Q4) {
+      const offsets: number[] = [];
+      for (let offset = 2; offset < years; offset += 2) offsets.push(offset);
+      
+      const older = await Promise.all(offsets.map(offset =>
+        this.getXbrlStatements(corpCode, String(parseInt(year, 10) - offset), reportCode, latest.fs)
+          .catch(error => {
+            // 과거 XBRL 미제출 시 조회 가능한 기간까지만 반환
+            if (error instanceof DARTAPIError && error.statusCode === 404) return null;
+            throw error;
+          })
+      ));
+      
+      for (const statements of older) {
+        if (!statements) break;
+        reports.push(extractSegments(statements.facts, axis, statements.fs, statements.memberLabels));
+      }
+    }
     
-    const data = await response.json() as any;
+    return { fs: latest.fs, rceptNo: latest.rceptNo, periods: mergeSegmentPeriods(reports) };
+  }
+
+  async getDisclosures(corpCode: string, limit: number = 5): Promise<Disclosure[]> {
+    // 정기 공시만 필터링 (pblntf_ty=A), 최근 2년간
+    const twoYearsAgo = new Date();
+    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
     
-    // status가 000이 아니면 빈 배열 반환 (013: 조회된 데이터 없음)
-    if (data.status !== '000' || !data.list) return [];
+    let disclosures: Disclosure[];
+    try {
+      ({ disclosures } = await this.searchDisclosures(corpCode, {
+        type: 'A',
+        from: twoYearsAgo.toISOString().slice(0, 10).replace(/-/g, ''),
+        pageSize: 20 // 중복 제거를 위해 더 많이 가져옴
+      }));
+    } catch {
+      // 요약 모드는 조회 실패 시 빈 목록
+      return [];
+    }
 
     // 같은 기간 보고서 중 최신만 유지 (기재정정 우선)
     // 예: "사업보고서 (2024.12)"와 "[기재정정]사업보고서 (2024.12)" 중 최신만
-    const reportMap = new Map<string, any>();
+    const reportMap = new Map<string, Disclosure>();
     
-    for (const item of data.list) {
+    for (const item of disclosures) {
       // 기간 키 추출: "분기보고서 (2025.09)" -> "분기보고서-2025.09"
       // "[기재정정]사업보고서 (2024.12)" -> "사업보고서-2024.12"
-      const reportNm = item.report_nm as string;
+      const reportNm = item.reportNm;
       const cleanName = reportNm.replace(/^\[기재정정\]/, '');
       const match = cleanName.match(/(.+보고서)\s*\((\d{4}\.\d{2})\)/);
       
@@ -301,49 +641,138 @@ export class DARTClient {
         const key = `${match[1]}-${match[2]}`;
         
         // 이미 있는 경우, 더 최신(rcept_dt가 큰) 것만 유지
-        if (!reportMap.has(key) || item.rcept_dt > reportMap.get(key).rcept_dt) {
+        if (!reportMap.has(key) || item.rcept_dt > reportMap.get(key)!.rcept_dt) {
           reportMap.set(key, item);
         }
       }
     }
     
     // 날짜순 정렬 후 limit 적용
-    const uniqueReports = Array.from(reportMap.values())
+    return Array.from(reportMap.values())
       .sort((a, b) => b.rcept_dt.localeCompare(a.rcept_dt))
       .slice(0, limit);
+  }
+
+  /**
+   * 공시서류원본파일 조회 (document.xml)
+   * ZIP 내 본문/첨부 XML을 섹션·표 단위로 파싱
+   */
+  async getDisclosureDocument(rceptNo: string): Promise<DisclosureDocumentFile[]> {
+    const unzipped = await withRetry(() => this.requestZip('/document.xml', { rcept_no: rceptNo }));
+    
+    return Object.keys(unzipped)
+      .filter(fileName => /\.xml$/i.test(fileName))
+      // 본문({rceptNo}.xml)을 첨부({rceptNo}_00760.xml 등)보다 먼저
+      .sort((a, b) => a.length - b.length || a.localeCompare(b))
+      .map(fileName => parseDisclosureDocument(fileName, decodeDocument(unzipped[fileName])));
+  }
+
+  /**
+   * 공시검색 (list.json)
+   * 공시유형/상세유형/기간/최종보고서 여부로 필터링하고 페이지 정보를 함께 반환
+   */
+  async searchDisclosures(
+    corpCode: string,
+    params: DisclosureSearchParams = {}
+  ): Promise<{ disclosures: Disclosure[]; paging: DisclosurePaging }> {
+    const { rows, paging } = await this.requestDisclosureList({ corp_code: corpCode }, params);
+    return { disclosures: rows.map(item => this.toDisclosure(item)), paging };
+  }
+
+  /**
+   * 전체 회사 공시검색 (corp_code 없이 list.json)
+   * DART 제한: 회사 미지정 시 검색기간 최대 3개월
+   */
+  async getLatestDisclosures(
+    params: DisclosureSearchParams & { market?: Market } = {}
+  ): Promise<{ disclosures: MarketDisclosure[]; paging: DisclosurePaging }> {
+    const query: Record<string, string> = {};
+    if (params.market) query.corp_cls = MARKET_CORP_CLASSES[params.market];
+    
+    const { rows, paging } = await this.requestDisclosureList(query, params);
+    
+    return {
+      disclosures: rows.map(item => ({
+        ...this.toDisclosure(item),
+        corpCode: item.corp_code,
+        corpName: String(item.corp_name || '').trim(),
+        stockCode: item.stock_code ? String(item.stock_code).trim() || null : null,
+        market: CORP_CLASS_MARKETS[item.corp_cls] ?? null
+      })),
+      paging
+    };
+  }
 
-    return uniqueReports.map((item: any) => ({
-      reportNm: item.report_nm,
+  private toDisclosure(item: any): Disclosure {
+    return {
+      reportNm: String(item.report_nm || '').trim(),
       rcept_no: item.rcept_no,
       rcept_dt: item.rcept_dt,
-      flr_nm: item.flr_nm
-    }));
+      flr_nm: item.flr_nm,
+      rm: item.rm || undefined
+    };
+  }
+
+  /**
+   * list.json 공통 조회: 검색 파라미터 변환 및 페이지 정보 추출
+   */
+  private async requestDisclosureList(
+    baseQuery: Record<string, string>,
+    params: DisclosureSearchParams
+  ): Promise<{ rows: any[]; paging: DisclosurePaging }> {
+    const page = params.page ?? 1;
+    const pageSize = params.pageSize ?? 10;
+    
+    const query: Record<string, string> = {
+      ...baseQuery,
+      page_no: String(page),
+      page_count: String(pageSize)
+    };
+    if (params.type) query.pblntf_ty = params.type;
+    if (params.detailType) query.pblntf_detail_ty = params.detailType;
+    // DART는 시작일 미지정 시 종료일 하루만 검색하므로 종료일(기본 오늘) 1년 전부터 조회
+    query.bgn_de = params.from
+      ?? oneYearBefore(params.to ?? new Date().toISOString().slice(0, 10).replace(/-/g, ''));
+    if (params.to) query.end_de = params.to;
+    if (params.finalOnly) query.last_reprt_at = 'Y';
+    
+    try {
+      const data = await withRetry(() => this.request<DARTResponse<any>>('/list.json', query));
+      
+      return {
+        rows: data.list || [],
+        paging: {
+          page: Number(data.page_no) || page,
+          pageSize: Number(data.page_count) || pageSize,
+          totalCount: Number(data.total_count) || 0,
+          totalPages: Number(data.total_page) || 0
+        }
+      };
+    } catch (error) {
+      if (error instanceof DARTAPIError && error.dartStatus === DART_STATUS_NO_DATA) {
+        return { rows: [], paging: { page, pageSize, totalCount: 0, totalPages: 0 } };
+      }
+      throw error;
+    }
   }
 
   async getFinancialDetails(
     corpCode: string,
     year: string,
-    reportCode: string = '11011'
+    reportCode: string = '11011',
+    fs: FinancialStatementMode = 'CFS'
   ): Promise<FinancialDetails> {
     return withRetry(async () => {
-      const response = await this.request<DARTResponse<any>>(
-        '/fnlttSinglAcntAll.json',
-        {
-          corp_code: corpCode,
-          bsns_year: year,
-          reprt_code: reportCode,
-          fs_div: 'CFS'
-        }
-      );
+      const { list } = await this.requestAccountList(corpCode, year, reportCode, fs);
       
-      if (!response.list) {
+      if (list.length === 0) {
         return { totalAssets: 0, totalEquity: 0, totalShares: 0, ebitda: 0, bookValue: 0 };
       }
       
-      const totalAssets = response.list.find((item: any) => item.account_nm === '자산총계');
-      const totalEquity = response.list.find(
-        (item: any) => item.account_nm === '자본총계' || item.account_nm.includes('지배기업 소유주지분')
-      );
+      const totalAssets = findAccount(list, 'totalAssets')?.item;
+      const totalEquity = (
+        findAccount(list, 'totalEquity') ?? findAccount(list, 'equityControlling')
+      )?.item;
 
       const stockInfo = await this.request<any>('/company.json', { corp_code: corpCode });
       
@@ -368,55 +797,42 @@ export class DARTClient {
   async getRawFinancialData(
     corpCode: string,
     year: string,
-    reportCode: string = '11011'
+    reportCode: string = '11011',
+    fs: FinancialStatementMode = 'CFS',
+    industryCode?: string
   ): Promise<{
     netIncome: number;
     totalAssets: number;
     totalEquity: number;
     eps: number | null;
     totalShares: number;
+    fs: FinancialStatementBasis;
+    accountMapping: AccountMappingReport;
   }> {
     return withRetry(async () => {
-      const response = await this.request<DARTResponse<any>>(
-        '/fnlttSinglAcntAll.json',
-        {
-          corp_code: corpCode,
-          bsns_year: year,
-          reprt_code: reportCode,
-          fs_div: 'CFS'
-        }
-      );
+      const { list, fs: basis } = await this.requestAccountList(corpCode, year, reportCode, fs);
       
-      if (!response.list || response.list.length === 0) {
+      if (list.length === 0) {
         throw new DARTAPIError('재무제표 데이터가 없습니다.', 404);
       }
       
-      // 당기순이익 찾기 (여러 가지 이름으로 존재할 수 있음)
-      const netIncomeItem = response.list.find((item: any) => 
-        item.account_nm === '당기순이익' || 
-        item.account_nm === '당기순이익(손실)' ||
-        item.account_nm.includes('지배기업의 소유주에게 귀속되는 당기순이익') ||
-        item.sj_nm === '손익계산서' && item.account_nm.includes('당기순이익')
-      );
-      
-      // 자산총계 찾기
-      const totalAssetsItem = response.list.find((item: any) => 
-        item.account_nm === '자산총계'
-      );
-      
-      // 자본총계 찾기
-      const totalEquityItem = response.list.find((item: any) => 
-        item.account_nm === '자본총계' || 
-        item.account_nm === '지배기업 소유주지분'
+      // 당기순이익, 자산총계, 자본총계, 기본주당이익(EPS) 찾기 - 계정 매핑 규칙 적용
+      const { items, report } = mapAccounts(
+        list,
+        ['netIncome', 'totalAssets', 'totalEquity', 'eps'],
+        resolveIndustryProfile(industryCode)
       );
+      const netIncomeItem = items.netIncome;
+      const totalAssetsItem = items.totalAssets;
+      const epsItem = items.eps;
       
-      // 기본주당이익(EPS) 찾기 - DART에서 직접 제공
-      const epsItem = response.list.find((item: any) => 
-        item.account_nm === '기본주당이익' || 
-        item.account_nm === '기본주당이익(손실)' ||
-        item.account_nm === '보통주기본주당이익' ||
-        item.account_nm.includes('기본주당순이익')
-      );
+      // 자본총계가 없으면 지배기업 소유주지분 사용
+      let totalEquityItem = items.totalEquity;
+      if (!totalEquityItem) {
+        const controlling = findAccount(list, 'equityControlling');
+        totalEquityItem = controlling?.item;
+        report.totalEquity = controlling?.match ?? null;
+      }
       
       // 발행주식수 찾기 - 재무제표에서 추출 시도
       // 발행주식수는 보통 주석이나 별도 API에서 가져와야 함
@@ -435,7 +851,9 @@ export class DARTClient {
         totalAssets: this.parseAmount(totalAssetsItem?.thstrm_amount),
         totalEquity: this.parseAmount(totalEquityItem?.thstrm_amount),
         eps,
-        totalShares
+        totalShares,
+        fs: basis,
+        accountMapping: report
       };
     });
   }
@@ -443,8 +861,14 @@ export class DARTClient {
   /**
    * TTM(Trailing Twelve Months) 재무 데이터 가져오기
    * 최근 4개 분기의 원시 데이터만 반환 (비율 계산은 호출측에서)
+   * fiscalYearEndMonth: 결산월 (company.json acc_mt), 분기 구간과 제출 여부 판단에 사용
    */
-  async getTTMFinancialData(corpCode: string): Promise<{
+  async getTTMFinancialData(
+    corpCode: string,
+    fs: FinancialStatementMode = 'CFS',
+    industryCode?: string,
+    fiscalYearEndMonth: number = 12
+  ): Promise<{
     revenue: number;
     operatingProfit: number;
     netIncome: number;
@@ -452,38 +876,35 @@ export class DARTClient {
     totalEquity: number;
     totalShares: number;
     quarters: string[];
+    fs: FinancialStatementBasis;
+    accountMapping: AccountMappingReport;
   } | null> {
     const currentYear = new Date().getFullYear();
-    const currentMonth = new Date().getMonth() + 1;
     
     // 분기별 보고서 코드: Q1=11013, Q2=11012, Q3=11014, Q4=11011
-    const allQuarters: { year: number; quarter: string; code: string }[] = [];
+    const allQuarters: { year: number; quarter: string; code: string; period: QuarterPeriod }[] = [];
     
-    // 최근 3년간의 모든 분기 생성 (역순)
+    // 최근 3년간의 모든 분기 생성 (역순, 회계연도 기준)
     for (let year = currentYear; year >= currentYear - 2; year--) {
-      allQuarters.push({ year, quarter: 'Q4', code: '11011' });
-      allQuarters.push({ year, quarter: 'Q3', code: '11014' });
-      allQuarters.push({ year, quarter: 'Q2', code: '11012' });
-      allQuarters.push({ year, quarter: 'Q1', code: '11013' });
+      for (const quarter of [4, 3, 2, 1] as const) {
+        const period = createQuarterPeriod(year, quarter, fiscalYearEndMonth);
+        allQuarters.push({
+          year,
+          quarter: period.quarter,
+          code: REPORT_CODES[period.quarter],
+          period
+        });
+      }
     }
     
     // 현재 시점에서 공시 가능한 분기만 필터링
-    const availableQuarters = allQuarters.filter(q => {
-      if (q.year > currentYear) return false;
-      if (q.year === currentYear) {
-        if (q.quarter === 'Q4') return currentMonth >= 3;
-        if (q.quarter === 'Q3') return currentMonth >= 11;
-        if (q.quarter === 'Q2') return currentMonth >= 8;
-        if (q.quarter === 'Q1') return currentMonth >= 5;
-        return false;
-      }
-      return true;
-    });
+    const availableQuarters = allQuarters.filter(q => isQuarterReportDue(q.period));
     
     // 분기별 원시 데이터 수집
     const quarterlyData: {
       year: number;
       quarter: string;
+      label: string;
       revenue: number;
       operatingProfit: number;
       netIncome: number;
@@ -492,47 +913,45 @@ export class DARTClient {
     }[] = [];
     
     let totalShares = 0;
+    let accountMapping: AccountMappingReport = {};
+    const industry = resolveIndustryProfile(industryCode);
+    // auto 모드는 처음 조회된 기준으로 고정 (분기간 연결/별도 혼합 방지)
+    let basis: FinancialStatementMode = fs;
+    
+    // 필요한 6개 분기(4개 + 누적 계산용)를 먼저 병렬 조회, 빈 분기가 있으면 나머지 조회
+    const fetchQuarter = (q: typeof availableQuarters[0], mode: FinancialStatementMode) =>
+      this.requestAccountList(corpCode, q.year.toString(), q.code, mode).catch(() => null);
+    
+    const fetched = await Promise.all(availableQuarters.slice(0, 6).map(q => fetchQuarter(q, fs)));
+    if (fetched.filter(result => result && result.list.length > 0).length < 6) {
+      fetched.push(...await Promise.all(availableQuarters.slice(6).map(q => fetchQuarter(q, fs))));
+    }
     
-    for (const q of availableQuarters) {
+    for (const [index, q] of availableQuarters.entries()) {
       if (quarterlyData.length >= 6) break; // 4개 + 누적 계산용
       
       try {
-        const response = await this.request<DARTResponse<any>>(
-          '/fnlttSinglAcntAll.json',
-          {
-            corp_code: corpCode,
-            bsns_year: q.year.toString(),
-            reprt_code: q.code,
-            fs_div: 'CFS'
-          }
-        );
-        
-        if (!response.list || response.list.length === 0) continue;
-        
-        // 매출액
-        const revenueItem = response.list.find((item: any) => 
-          item.account_nm === '매출액' || item.account_nm === '수익(매출액)'
-        );
-        
-        // 영업이익
-        const operatingProfitItem = response.list.find((item: any) => 
-          item.account_nm === '영업이익' || item.account_nm === '영업이익(손실)'
-        );
+        let result = fetched[index];
+        // auto 모드에서 앞 분기와 기준이 다르면 고정된 기준으로 재조회
+        if (result && result.list.length > 0 && basis !== 'auto' && result.fs !== basis) {
+          result = await fetchQuarter(q, basis);
+        }
+        if (!result || result.list.length === 0) continue;
         
-        // 당기순이익
-        const netIncomeItem = response.list.find((item: any) => 
-          item.account_nm === '당기순이익' && item.sj_nm === '손익계산서'
-        ) || response.list.find((item: any) => 
-          item.account_nm === '당기순이익'
-        );
+        const { list, fs: listBasis } = result;
+        basis = listBasis;
         
-        // 자산총계, 자본총계
-        const totalAssetsItem = response.list.find((item: any) => 
-          item.account_nm === '자산총계'
-        );
-        const totalEquityItem = response.list.find((item: any) => 
-          item.account_nm === '자본총계'
+        // 매출액, 영업이익, 당기순이익, 자산총계, 자본총계
+        const { items, report } = mapAccounts(
+          list,
+          ['revenue', 'operatingProfit', 'netIncome', 'totalAssets', 'totalEquity', 'eps'],
+          industry
         );
+        const revenueItem = items.revenue;
+        const operatingProfitItem = items.operatingProfit;
+        const netIncomeItem = items.netIncome;
+        const totalAssetsItem = items.totalAssets;
+        const totalEquityItem = items.totalEquity;
         
         const revenue = this.parseAmount(revenueItem?.thstrm_amount);
         const operatingProfit = this.parseAmount(operatingProfitItem?.thstrm_amount);
@@ -540,21 +959,19 @@ export class DARTClient {
         
         // Q4(연간 보고서)에서 발행주식수 계산 (EPS 역산)
         if (q.quarter === 'Q4' && totalShares === 0) {
-          const epsItem = response.list.find((item: any) => 
-            item.account_nm === '기본주당이익' || 
-            item.account_nm === '기본주당이익(손실)' ||
-            item.account_nm === '보통주기본주당이익'
-          );
-          const eps = this.parseAmount(epsItem?.thstrm_amount);
+          const eps = this.parseAmount(items.eps?.thstrm_amount);
           if (eps > 0 && netIncome > 0) {
             totalShares = Math.round(netIncome / eps);
           }
         }
         
         if (netIncome !== 0 || revenue !== 0) {
+          // 가장 최근 분기의 매핑 결과를 보고
+          if (quarterlyData.length === 0) accountMapping = report;
           quarterlyData.push({
             year: q.year,
             quarter: q.quarter,
+            label: q.period.label,
             revenue,
             operatingProfit,
             netIncome,
@@ -607,10 +1024,373 @@ export class DARTClient {
       totalAssets: latestQuarter.totalAssets,
       totalEquity: latestQuarter.totalEquity,
       totalShares,
-      quarters: quarterOnlyData.map(q => `${q.year}-${q.quarter}`)
+      quarters: quarterOnlyData.map(q => q.label),
+      fs: basis === 'auto' ? 'CFS' : basis,
+      accountMapping
+    };
+  }
+
+  /**
+   * 배당 내역 조회 (alotMatter)
+   * 사업보고서 1건에 3개년 데이터가 있으므로 최신 보고서부터 3년 간격으로 조회
+   */
+  async getDividends(corpCode: string, years: number = 5): Promise<DividendYear[]> {
+    const currentYear = new Date().getFullYear();
+    const oldestYear = currentYear - years;
+    const histories: DividendYear[][] = [];
+    
+    let reportYear = currentYear - 1;
+    while (reportYear >= oldestYear) {
+      const rows = await withRetry(() =>
+        this.requestList<DARTDividendItem>('/alotMatter.json', {
+          corp_code: corpCode,
+          bsns_year: String(reportYear),
+          reprt_code: REPORT_CODES.Q4
+        })
+      );
+      
+      if (rows.length > 0) {
+        histories.push(parseDividendRows(rows, String(reportYear)));
+        reportYear -= 3;
+      } else {
+        // 사업보고서 미제출 연도는 건너뜀
+        reportYear -= 1;
+      }
+    }
+    
+    return mergeDividendHistory(histories).slice(0, years);
+  }
+
+  /**
+   * 최대주주 현황 조회 (hyslrSttus)
+   * 연도/보고서 미지정 시 제출된 가장 최근 정기보고서 기준
+   */
+  async getLargestShareholders(
+    corpCode: string,
+    year?: string,
+    reportCode?: string
+  ): Promise<{ year: string | null; reportCode: string | null; holders: Shareholder[]; totalStake: number | null }> {
+    const result = year
+      ? {
+          year,
+          reportCode: reportCode || REPORT_CODES.Q4,
+          rows: await withRetry(() => this.requestList<any>('/hyslrSttus.json', {
+            corp_code: corpCode,
+            bsns_year: year,
+            reprt_code: reportCode || REPORT_CODES.Q4
+          }))
+        }
+      : await this.requestLatestPeriodic<any>('/hyslrSttus.json', corpCode);
+    
+    if (!result || result.rows.length === 0) {
+      return { year: year || null, reportCode: reportCode || null, holders: [], totalStake: null };
+    }
+    
+    // "계" 행은 최대주주 및 특수관계인 합계
+    const isTotalRow = (item: any) => String(item.nm || '').replace(/\s/g, '') === '계';
+    const totalRow = result.rows.find((item: any) => isTotalRow(item) && item.stock_knd === '보통주')
+      || result.rows.find(isTotalRow);
+    
+    const holders: Shareholder[] = result.rows
+      .filter((item: any) => !isTotalRow(item))
+      .map((item: any) => ({
+        name: item.nm,
+        relation: item.relate && item.relate !== '-' ? item.relate : null,
+        shareClass: item.stock_knd || '',
+        sharesAtStart: this.parseNumber(item.bsis_posesn_stock_co),
+        stakeAtStart: this.parseNumber(item.bsis_posesn_stock_qota_rt),
+        shares: this.parseNumber(item.trmend_posesn_stock_co),
+        stake: this.parseNumber(item.trmend_posesn_stock_qota_rt),
+        note: item.rm && item.rm !== '-' ? item.rm : null
+      }))
+      .sort((a, b) => (b.stake ?? 0) - (a.stake ?? 0));
+    
+    return {
+      year: result.year,
+      reportCode: result.reportCode,
+      holders,
+      totalStake: this.parseNumber(totalRow?.trmend_posesn_stock_qota_rt)
     };
   }
 
+  /**
+   * 대량보유 상황보고 (5% 보고) 조회 (majorstock)
+   * 최신 보고순 정렬
+   */
+  async getMajorShareholderReports(corpCode: string): Promise<OwnershipChange[]> {
+    const rows = await withRetry(() =>
+      this.requestList<any>('/majorstock.json', { corp_code: corpCode })
+    );
+    
+    return rows
+      .map((item: any): OwnershipChange => ({
+        rceptNo: item.rcept_no,
+        reportDate: String(item.rcept_dt || '').replace(/-/g, ''),
+        reporter: item.repror,
+        reportType: item.report_tp || '',
+        shares: this.parseNumber(item.stkqy),
+        sharesChange: this.parseNumber(item.stkqy_irds),
+        stake: this.parseNumber(item.stkrt),
+        stakeChange: this.parseNumber(item.stkrt_irds),
+        reason: item.report_resn && item.report_resn !== '-' ? item.report_resn : null,
+        url: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${item.rcept_no}`
+      }))
+      .sort((a, b) => b.reportDate.localeCompare(a.reportDate) || b.rceptNo.localeCompare(a.rceptNo));
+  }
+
+  /**
+   * 임원·주요주주 소유보고 조회 (elestock)
+   * 전체 보고를 최신 보고순으로 반환 (기간 필터는 캐시된 목록에 라우트에서 적용)
+   * DART 응답에 변동 사유 항목이 없어 증감 방향만 changeType으로 제공
+   */
+  async getInsiderTrades(corpCode: string): Promise<InsiderTrade[]> {
+    const rows = await withRetry(() =>
+      this.requestList<any>('/elestock.json', { corp_code: corpCode })
+    );
+    
+    return rows
+      .map((item: any): InsiderTrade => {
+        const sharesAfter = this.parseNumber(item.sp_stock_lmp_cnt);
+        const sharesChange = this.parseNumber(item.sp_stock_lmp_irds_cnt);
+        const position = item.isu_exctv_ofcps && item.isu_exctv_ofcps !== '-' ? item.isu_exctv_ofcps : null;
+        const registration = item.isu_exctv_rgist_at && item.isu_exctv_rgist_at !== '-' ? item.isu_exctv_rgist_at : null;
+        const majorShareholder = item.isu_main_shrholdr && item.isu_main_shrholdr !== '-' ? item.isu_main_shrholdr : null;
+        
+        return {
+          rceptNo: item.rcept_no,
+          reportDate: String(item.rcept_dt || '').replace(/-/g, ''),
+          reporter: item.repror,
+          relationship: [position, registration, majorShareholder].filter(Boolean).join(' · '),
+          position,
+          isRegisteredExecutive: registration === '등기임원',
+          isMajorShareholder: majorShareholder !== null,
+          sharesBefore: sharesAfter !== null && sharesChange !== null ? sharesAfter - sharesChange : null,
+          sharesAfter,
+          sharesChange,
+          stakeAfter: this.parseNumber(item.sp_stock_lmp_rate),
+          stakeChange: this.parseNumber(item.sp_stock_lmp_irds_rate),
+          changeType: !sharesChange ? 'unchanged' : (sharesChange > 0 ? 'increase' : 'decrease'),
+          url: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${item.rcept_no}`
+        };
+      })
+      .sort((a, b) => b.reportDate.localeCompare(a.reportDate) || b.rceptNo.localeCompare(a.rceptNo));
+  }
+
+  /**
+   * 주요사항보고서 이벤트 조회 (유상증자/전환사채/자기주식 취득/합병/분할)
+   * from/to: 접수일 기준 YYYYMMDD
+   */
+  async getMaterialEvents(
+    corpCode: string,
+    from: string,
+    to: string,
+    types: MaterialEventType[] = MATERIAL_EVENT_TYPES
+  ): Promise<MaterialEvent[]> {
+    const results = await Promise.all(
+      types.map(async type => {
+        const definition = MATERIAL_EVENT_DEFINITIONS[type];
+        const rows = await withRetry(() =>
+          this.requestList<any>(definition.endpoint, {
+            corp_code: corpCode,
+            bgn_de: from,
+            end_de: to
+          })
+        );
+        return rows.map(definition.normalize);
+      })
+    );
+    
+    return results
+      .flat()
+      .sort((a, b) => b.rceptNo.localeCompare(a.rceptNo));
+  }
+
+  /**
+   * 임원 현황 조회 (exctvSttus)
+   * 연도 미지정 시 제출된 가장 최근 정기보고서 기준
+   */
+  async getExecutives(
+    corpCode: string,
+    year?: string,
+    reportCode?: string
+  ): Promise<{ year: string | null; reportCode: string | null; executives: Executive[] }> {
+    const result = year
+      ? {
+          year,
+          reportCode: reportCode || REPORT_CODES.Q4,
+          rows: await withRetry(() => this.requestList<any>('/exctvSttus.json', {
+            corp_code: corpCode,
+            bsns_year: year,
+            reprt_code: reportCode || REPORT_CODES.Q4
+          }))
+        }
+      : await this.requestLatestPeriodic<any>('/exctvSttus.json', corpCode);
+    
+    if (!result) {
+      return { year: year || null, reportCode: reportCode || null, executives: [] };
+    }
+    
+    const text = (value: any) => value && value !== '-' ? String(value).trim() : null;
+    
+    const executives: Executive[] = result.rows.map((item: any) => ({
+      name: String(item.nm || '').trim(),
+      gender: text(item.sexdstn),
+      birthYearMonth: text(item.birth_ym),
+      position: text(item.ofcps) || '',
+      // 등기임원 구분: 사내이사/사외이사/기타비상무이사/감사, 그 외 '미등기'
+      isRegistered: !!text(item.rgist_exctv_at) && !String(item.rgist_exctv_at).includes('미등기'),
+      isFullTime: item.fte_at === '상근',
+      responsibility: text(item.chrg_job),
+      career: text(item.main_career),
+      relationToLargestShareholder: text(item.mxmm_shrholdr_relate),
+      tenure: text(item.hffc_pd),
+      termExpiry: text(item.tenure_end_on),
+      compensation: null
+    }));
+    
+    return { year: result.year, reportCode: result.reportCode, executives };
+  }
+
+  /**
+   * 이사·감사 개별 보수 조회 (hmvAuditIndvdlBySttus, 5억원 이상 공시 대상)
+   * 사업보고서 기준, 연도 미지정 시 최근 제출된 사업보고서
+   */
+  async getExecutiveCompensation(
+    corpCode: string,
+    year?: string
+  ): Promise<{ year: string | null; individuals: ExecutiveCompensation[] }> {
+    const currentYear = new Date().getFullYear();
+    const years = year ? [year] : [String(currentYear - 1), String(currentYear - 2)];
+    
+    for (const candidate of years) {
+      const rows = await withRetry(() =>
+        this.requestList<any>('/hmvAuditIndvdlBySttus.json', {
+          corp_code: corpCode,
+          bsns_year: candidate,
+          reprt_code: REPORT_CODES.Q4
+        })
+      );
+      
+      if (rows.length > 0) {
+        return {
+          year: candidate,
+          individuals: rows
+            .map((item: any) => ({
+              name: String(item.nm || '').trim(),
+              position: String(item.ofcps || '').trim(),
+              totalPay: this.parseNumber(item.mendng_totamt),
+              otherPay: this.parseNumber(item.mendng_totamt_ct_incls_mendng)
+            }))
+            .sort((a, b) => (b.totalPay ?? 0) - (a.totalPay ?? 0))
+        };
+      }
+    }
+    
+    return { year: year || null, individuals: [] };
+  }
+
+  /**
+   * 정기보고서 기반 API를 최근 보고서부터 역순으로 조회
+   * 가장 최근에 제출된 보고서의 목록 반환
+   */
+  private async requestLatestPeriodic<T>(
+    endpoint: string,
+    corpCode: string,
+    maxAttempts: number = 6
+  ): Promise<{ year: string; reportCode: string; rows: T[] } | null> {
+    const currentYear = new Date().getFullYear();
+    const candidates: { year: number; code: string }[] = [
+      { year: currentYear, code: REPORT_CODES.Q3 },
+      { year: currentYear, code: REPORT_CODES.Q2 },
+      { year: currentYear, code: REPORT_CODES.Q1 },
+      { year: currentYear - 1, code: REPORT_CODES.Q4 },
+      { year: currentYear - 1, code: REPORT_CODES.Q3 },
+      { year: currentYear - 1, code: REPORT_CODES.Q2 },
+      { year: currentYear - 2, code: REPORT_CODES.Q4 }
+    ];
+    
+    for (const candidate of candidates.slice(0, maxAttempts)) {
+      const rows = await withRetry(() =>
+        this.requestList<T>(endpoint, {
+          corp_code: corpCode,
+          bsns_year: String(candidate.year),
+          reprt_code: candidate.code
+        })
+      );
+      if (rows.length > 0) {
+        return { year: String(candidate.year), reportCode: candidate.code, rows };
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * 목록형 API 조회 - 013(조회된 데이터 없음)은 빈 배열로 반환
+   */
+  private async requestList<T>(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<T[]> {
+    try {
+      const response = await this.request<DARTResponse<T>>(endpoint, params);
+      return response.list || [];
+    } catch (error) {
+      if (error instanceof DARTAPIError && error.dartStatus === DART_STATUS_NO_DATA) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 전체 재무제표 계정 조회 (fnlttSinglAcntAll)
+   * auto 모드는 연결재무제표(CFS)가 없으면 별도재무제표(OFS)로 재조회
+   */
+  private async requestAccountList(
+    corpCode: string,
+    year: string,
+    reportCode: string,
+    fs: FinancialStatementMode
+  ): Promise<{ list: DARTAccountItem[]; fs: FinancialStatementBasis }> {
+    const bases: FinancialStatementBasis[] = fs === 'auto' ? ['CFS', 'OFS'] : [fs];
+    
+    for (const basis of bases) {
+      try {
+        const response = await this.request<DARTResponse<DARTAccountItem>>(
+          '/fnlttSinglAcntAll.json',
+          {
+            corp_code: corpCode,
+            bsns_year: year,
+            reprt_code: reportCode,
+            fs_div: basis
+          }
+        );
+        if (response.list && response.list.length > 0) {
+          return { list: response.list, fs: basis };
+        }
+      } catch (error) {
+        // 013(조회된 데이터 없음)만 다음 기준으로 넘어감
+        if (!(error instanceof DARTAPIError && error.dartStatus === DART_STATUS_NO_DATA)) {
+          throw error;
+        }
+      }
+    }
+    
+    return { list: [], fs: bases[bases.length - 1] };
+  }
+
+  /**
+   * 소수점/음수를 포함한 수치 파싱 ("-" 또는 빈 값은 null)
+   */
+  private parseNumber(value: string | undefined): number | null {
+    if (value === undefined || value === null) return null;
+    const cleaned = String(value).replace(/,/g, '').replace(/\s/g, '');
+    if (cleaned === '' || cleaned === '-') return null;
+    const parsed = parseFloat(cleaned);
+    return isNaN(parsed) ? null : parsed;
+  }
+
   private parseAmount(amount: string | undefined): number {
     if (!amount) return 0;
     const cleaned = amount.replace(/,/g, '').replace(/\s/g, '');
@@ -619,6 +1399,9 @@ export class DARTClient {
   }
 }
 
-export function createDARTClient(apiKey: string): DARTClient {
-  return new DARTClient(apiKey);
+export function createDARTClient(
+  apiKey: string,
+  schedulerConfig: Partial<SchedulerConfig> = {}
+): DARTClient {
+  return new DARTClient(apiKey, DART_BASE_URL, schedulerConfig);
 }
@@ -0,0 +1,197 @@
+/**
+ * DART 주요사항보고서 API
+ *
+ * Endpoint definitions and normalizers that turn DS005 주요사항보고서 rows
+ * (유상증자, 전환사채, 자기주식 취득, 합병, 분할) into typed event objects.
+ */
+
+import type {
+  MaterialEvent,
+  MaterialEventType,
+  CapitalIncreaseEvent,
+  ConvertibleBondEvent,
+  TreasuryStockAcquisitionEvent,
+  MergerEvent,
+  SpinOffEvent,
+  FundingPurpose
+} from '../types';
+
+interface EventDefinition {
+  endpoint: string;
+  normalize: (item: any) => MaterialEvent;
+}
+
+/**
+ * Parse numeric fields ("1,000,000", "1.5", "-")
+ */
+function parseValue(value: string | undefined): number | null {
+  if (value === undefined || value === null) return null;
+  const cleaned = String(value).replace(/,/g, '').replace(/\s/g, '');
+  if (cleaned === '' || cleaned === '-') return null;
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseText(value: string | undefined): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === '' || text === '-' ? null : text;
+}
+
+/**
+ * Normalize DART date strings to YYYY-MM-DD
+ * e.g., "2024년 03월 15일", "2024.03.15", "2024-03-15", "20240315"
+ * 날짜 형식이 아니면 원문 유지 (e.g., "미정")
+ */
+export function parseEventDate(value: string | undefined): string | null {
+  const text = parseText(value);
+  if (!text) return null;
+  const match = text.match(/(\d{4})\D*(\d{1,2})\D*(\d{1,2})/);
+  if (!match) return text;
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+function parseFunding(item: any): FundingPurpose {
+  const parts = {
+    facilities: parseValue(item.fdpp_fclt),
+    businessAcquisition: parseValue(item.fdpp_bsninh),
+    operating: parseValue(item.fdpp_op),
+    debtRepayment: parseValue(item.fdpp_dtrp),
+    securitiesAcquisition: parseValue(item.fdpp_ocsa),
+    other: parseValue(item.fdpp_etc)
+  };
+  const values = Object.values(parts).filter((v): v is number => v !== null);
+
+  return {
+    ...parts,
+    total: values.length > 0 ? values.reduce((sum, v) => sum + v, 0) : null
+  };
+}
+
+function baseFields(item: any) {
+  return {
+    rceptNo: item.rcept_no,
+    receivedDate: String(item.rcept_no || '').slice(0, 8),
+    boardDecisionDate: parseEventDate(item.bddd),
+    url: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${item.rcept_no}`
+  };
+}
+
+function normalizeCapitalIncrease(item: any): CapitalIncreaseEvent {
+  const newCommon = parseValue(item.nstk_ostk_cnt);
+  const newOther = parseValue(item.nstk_estk_cnt);
+  const beforeCommon = parseValue(item.bfic_tisstk_ostk);
+  const beforeOther = parseValue(item.bfic_tisstk_estk);
+  const newTotal = (newCommon ?? 0) + (newOther ?? 0);
+  const beforeTotal = (beforeCommon ?? 0) + (beforeOther ?? 0);
+
+  return {
+    type: 'capitalIncrease',
+    ...baseFields(item),
+    method: parseText(item.ic_mthn),
+    newShares: { common: newCommon, other: newOther },
+    sharesBefore: { common: beforeCommon, other: beforeOther },
+    dilutionRatio: beforeTotal > 0 ? (newTotal / beforeTotal) * 100 : null,
+    parValue: parseValue(item.fv_ps),
+    funding: parseFunding(item)
+  };
+}
+
+function normalizeConvertibleBond(item: any): ConvertibleBondEvent {
+  return {
+    type: 'convertibleBond',
+    ...baseFields(item),
+    series: parseText(item.bd_tm),
+    faceAmount: parseValue(item.bd_fta),
+    couponRate: parseValue(item.bd_intr_ex),
+    yieldToMaturity: parseValue(item.bd_intr_sf),
+    maturityDate: parseEventDate(item.bd_mtd),
+    issueMethod: parseText(item.bdis_mthn),
+    conversionPrice: parseValue(item.cv_prc),
+    conversionPriceFloor: parseValue(item.act_mktprcfl_cvprc_lwtrsprc),
+    conversionShares: parseValue(item.cvisstk_cnt),
+    conversionShareRatio: parseValue(item.cvisstk_tisstk_vs),
+    conversionPeriod: {
+      start: parseEventDate(item.cvrqpd_bgd),
+      end: parseEventDate(item.cvrqpd_edd)
+    },
+    paymentDate: parseEventDate(item.pymd),
+    funding: parseFunding(item)
+  };
+}
+
+function normalizeTreasuryStockAcquisition(item: any): TreasuryStockAcquisitionEvent {
+  return {
+    type: 'treasuryStockAcquisition',
+    ...baseFields(item),
+    // 자기주식 취득 결정은 이사회결의일 대신 취득결정일(aq_dd) 사용
+    boardDecisionDate: parseEventDate(item.aq_dd ?? item.bddd),
+    plannedShares: {
+      common: parseValue(item.aqpln_stk_ostk),
+      other: parseValue(item.aqpln_stk_estk)
+    },
+    plannedAmount: {
+      common: parseValue(item.aqpln_prc_ostk),
+      other: parseValue(item.aqpln_prc_estk)
+    },
+    acquisitionPeriod: {
+      start: parseEventDate(item.aqexpd_bgd),
+      end: parseEventDate(item.aqexpd_edd)
+    },
+    holdingPeriod: {
+      start: parseEventDate(item.hdexpd_bgd),
+      end: parseEventDate(item.hdexpd_edd)
+    },
+    purpose: parseText(item.aq_pp),
+    method: parseText(item.aq_mth),
+    broker: parseText(item.cs_iv_bk)
+  };
+}
+
+function normalizeMerger(item: any): MergerEvent {
+  return {
+    type: 'merger',
+    ...baseFields(item),
+    method: parseText(item.mg_mth),
+    form: parseText(item.mg_stn),
+    purpose: parseText(item.mg_pp),
+    ratio: parseText(item.mg_rt),
+    counterparty: {
+      name: parseText(item.mgptncmp_cmpnm),
+      business: parseText(item.mgptncmp_mbsn),
+      relation: parseText(item.mgptncmp_rl_cmpn)
+    },
+    contractDate: parseEventDate(item.mgsc_mgctrd),
+    recordDate: parseEventDate(item.mgsc_shddstd),
+    effectiveDate: parseEventDate(item.mgsc_mgdt)
+  };
+}
+
+function normalizeSpinOff(item: any): SpinOffEvent {
+  return {
+    type: 'spinOff',
+    ...baseFields(item),
+    method: parseText(item.dv_mth),
+    ratio: parseText(item.dv_rt),
+    transferredBusiness: parseText(item.dv_trfbsnprt_cn),
+    survivingCompany: parseText(item.atdv_excmp_cmpnm),
+    newCompany: {
+      name: parseText(item.dvfcmp_cmpnm),
+      business: parseText(item.dvfcmp_mbsn)
+    },
+    effectiveDate: parseEventDate(item.dvdt)
+  };
+}
+
+/**
+ * 이벤트 유형별 DART 엔드포인트 (corp_code, bgn_de, end_de 공통 파라미터)
+ */
+export const MATERIAL_EVENT_DEFINITIONS: Record<MaterialEventType, EventDefinition> = {
+  capitalIncrease: { endpoint: '/piicDecsn.json', normalize: normalizeCapitalIncrease },
+  convertibleBond: { endpoint: '/cvbdIsDecsn.json', normalize: normalizeConvertibleBond },
+  treasuryStockAcquisition: { endpoint: '/tsstkAqDecsn.json', normalize: normalizeTreasuryStockAcquisition },
+  merger: { endpoint: '/cmpMgDecsn.json', normalize: normalizeMerger },
+  spinOff: { endpoint: '/cmpDvDecsn.json', normalize: normalizeSpinOff }
+};
+
+export const MATERIAL_EVENT_TYPES = Object.keys(MATERIAL_EVENT_DEFINITIONS) as MaterialEventType[];
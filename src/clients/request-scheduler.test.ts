@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestScheduler, requestKey, schedulerConfigFromEnv, DEFAULT_SCHEDULER_CONFIG } from './request-scheduler';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise<void>(resolve => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces in-flight tasks with the same key', async () => {
+    const scheduler = new RequestScheduler();
+    const pending = deferred<string>();
+    const task = vi.fn(() => pending.promise);
+
+    const first = scheduler.schedule('a', task);
+    const second = scheduler.schedule('a', task);
+    const other = scheduler.schedule('b', async () => 'b');
+
+    pending.resolve('a');
+    await expect(Promise.all([first, second, other])).resolves.toEqual(['a', 'a', 'b']);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs the task again once the previous call has settled', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('failed'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(scheduler.schedule('a', task)).rejects.toThrow('failed');
+    await expect(scheduler.schedule('a', task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not coalesce tasks without a key', async () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn(async () => 1);
+
+    await Promise.all([scheduler.schedule(null, task), scheduler.schedule(null, task)]);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('limits the number of concurrent tasks', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2 });
+    const tasks = [deferred<number>(), deferred<number>(), deferred<number>()];
+    let started = 0;
+
+    const results = tasks.map((task, i) => scheduler.schedule(`task-${i}`, () => {
+      started++;
+      return task.promise;
+    }));
+
+    await flush();
+    expect(started).toBe(2);
+
+    tasks[0].resolve(0);
+    await flush();
+    expect(started).toBe(3);
+
+    tasks[1].resolve(1);
+    tasks[2].resolve(2);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('waits for the per-minute budget before starting more tasks', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler({ concurrency: 10, perMinute: 2 });
+    const started: number[] = [];
+
+    const results = [0, 1, 2].map(i => scheduler.schedule(`task-${i}`, async () => {
+      started.push(i);
+      return i;
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(started).toEqual([0, 1, 2]);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+  });
+});
+
+describe('schedulerConfigFromEnv', () => {
+  it('reads positive integers and ignores invalid values', () => {
+    expect(schedulerConfigFromEnv({ DART_MAX_CONCURRENCY: '8', DART_REQUESTS_PER_MINUTE: '600' }))
+      .toEqual({ concurrency: 8, perMinute: 600 });
+    expect(schedulerConfigFromEnv({ DART_MAX_CONCURRENCY: '0', DART_REQUESTS_PER_MINUTE: 'abc' })).toEqual({});
+    expect(schedulerConfigFromEnv({})).toEqual({});
+    expect(DEFAULT_SCHEDULER_CONFIG).toEqual({ concurrency: 4, perMinute: 300 });
+  });
+});
+
+describe('requestKey', () => {
+  it('ignores parameter order', () => {
+    expect(requestKey('list.json', { b: '2', a: '1' })).toBe('list.json?a=1&b=2');
+    expect(requestKey('list.json', { a: '1', b: '2' })).toBe(requestKey('list.json', { b: '2', a: '1' }));
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Request Scheduler
+ *
+ * Run DART API calls concurrently under a concurrency limit and a per-minute
+ * budget, coalescing identical in-flight calls.
+ *
+ * Workers는 다른 요청의 I/O를 공유할 수 없으므로 스케줄러는 DARTClient
+ * 인스턴스(요청) 단위로 생성. 따라서 동시 요청 수와 분당 예산은 Worker 호출
+ * (HTTP 요청 1건 또는 크론 실행 1회) 단위이며 호출 간에는 공유되지 않음.
+ * 예산은 호출 하나가 DART 일일 한도를 소진하지 않도록 하는 용도이고, 전체 호출 합계를
+ * 제한하지는 않음. 한도는 DART_MAX_CONCURRENCY, DART_REQUESTS_PER_MINUTE 환경변수로 조정.
+ */
+
+import type { Env } from '../types';
+
+export interface SchedulerConfig {
+  concurrency: number;  // 동시 요청 수
+  perMinute: number;    // 1분당 최대 요청 수
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  concurrency: 4,
+  perMinute: 300
+};
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Scheduler limits from environment variables (없거나 양의 정수가 아니면 기본값)
+ */
+export function schedulerConfigFromEnv(
+  env: Pick<Env, 'DART_MAX_CONCURRENCY' | 'DART_REQUESTS_PER_MINUTE'>
+): Partial<SchedulerConfig> {
+  const config: Partial<SchedulerConfig> = {};
+  const concurrency = parseInt(env.DART_MAX_CONCURRENCY || '', 10);
+  const perMinute = parseInt(env.DART_REQUESTS_PER_MINUTE || '', 10);
+  if (concurrency > 0) config.concurrency = concurrency;
+  if (perMinute > 0) config.perMinute = perMinute;
+  return config;
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+export class RequestScheduler {
+  private config: SchedulerConfig;
+  private active: number;
+  private waiting: (() => void)[];
+  private startTimes: number[];
+  private inFlight: Map<string, Promise<unknown>>;
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+    this.active = 0;
+    this.waiting = [];
+    this.startTimes = [];
+    this.inFlight = new Map();
+  }
+
+  /**
+   * Schedule a task; tasks sharing a key while in flight share one result
+   */
+  schedule<T>(key: string | null, task: () => Promise<T>): Promise<T> {
+    if (key) {
+      const pending = this.inFlight.get(key);
+      if (pending) return pending as Promise<T>;
+    }
+
+    const run = this.run(task);
+
+    if (key) {
+      this.inFlight.set(key, run);
+      run.then(
+        () => this.inFlight.delete(key),
+        () => this.inFlight.delete(key)
+      );
+    }
+
+    return run;
+  }
+
+  private async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Wait for a free slot and remaining per-minute budget
+   */
+  private async acquire(): Promise<void> {
+    while (this.active >= this.config.concurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    // 최근 1분간 시작한 요청 수가 예산을 넘으면 가장 오래된 요청이 창을 벗어날 때까지 대기
+    for (;;) {
+      const now = Date.now();
+      this.startTimes = this.startTimes.filter(time => now - time < WINDOW_MS);
+      if (this.startTimes.length < this.config.perMinute) break;
+      await sleep(this.startTimes[0] + WINDOW_MS - now);
+    }
+    this.startTimes.push(Date.now());
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+/**
+ * Coalescing key for a request (파라미터 순서와 무관)
+ */
+export function requestKey(endpoint: string, params: Record<string, string>): string {
+  const query = Object.keys(params)
+    .sort()
+    .map(key => `${key}=${params[key]}`)
+    .join('&');
+  return `${endpoint}?${query}`;
+}
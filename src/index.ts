@@ -12,6 +12,7 @@ import api from './routes/api';
 import { createCacheManager, CACHE_TTL, CACHE_KEYS } from './cache/cache-manager';
 import { createDARTClient } from './clients/dart-client';
 import { getSearchService } from './services/search-service';
+import { runScheduledJobs } from './jobs/scheduled';
 
 // HTML UI Template
 const indexHtml = `<!DOCTYPE html>
@@ -98,6 +99,32 @@ const indexHtml = `<!DOCTYPE html>
       display: none;
     }
     .autocomplete.show { display: block; }
+    .compare-box { position: relative; max-width: 400px; margin-bottom: 12px; }
+    .compare-box input {
+      width: 100%;
+      padding: 10px 14px;
+      font-size: 0.9rem;
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      outline: none;
+      background: var(--bg-input);
+      color: var(--text-primary);
+    }
+    .compare-box input:focus { border-color: var(--accent-color); }
+    .compare-chips { display: flex; flex-wrap: wrap; gap: 8px; }
+    .compare-chip {
+      padding: 4px 10px;
+      border-radius: 12px;
+      background: var(--hover-bg);
+      color: var(--text-primary);
+      font-size: 0.85rem;
+      cursor: pointer;
+    }
+    .compare-chip.suggested {
+      background: transparent;
+      border: 1px dashed var(--border-color);
+      color: var(--text-secondary);
+    }
     .autocomplete-item {
       padding: 12px 16px;
       cursor: pointer;
@@ -216,6 +243,7 @@ const indexHtml = `<!DOCTYPE html>
     .qoq-table .metric-revenue { border-left: 3px solid var(--chart-revenue); }
     .qoq-table .metric-op { border-left: 3px solid var(--chart-operating); }
     .qoq-table .metric-net { border-left: 3px solid var(--chart-net); }
+    .qoq-table .metric-cash { border-left: 3px solid var(--accent-tertiary); }
     .ratios-grid {
       display: grid;
       grid-template-columns: repeat(auto-fit, minmax(100px, 1fr));
@@ -230,6 +258,9 @@ const indexHtml = `<!DOCTYPE html>
       cursor: default;
     }
     .ratio-label[title] { cursor: help; }
+    .ratio-value[title] { cursor: help; }
+    .ratio-label a { color: inherit; text-decoration: underline dotted; }
+    .ratio-label a:hover { color: var(--accent-color); }
     
     /* 재무비율 카테고리 스타일 */
     .ratio-category {
@@ -264,6 +295,8 @@ const indexHtml = `<!DOCTYPE html>
     .list-item a:hover { color: var(--accent-color); }
     .list-title { font-weight: 500; margin-bottom: 4px; }
     .list-meta { font-size: 0.85rem; color: var(--text-muted); }
+    .list-title .positive { color: var(--positive-color); }
+    .list-title .negative { color: var(--negative-color); }
     .loading {
       text-align: center;
       padding: 40px;
@@ -333,6 +366,16 @@ const indexHtml = `<!DOCTYPE html>
       background: var(--negative-color);
     }
     
+    /* 누적 막대 (부문별 매출) */
+    .chart-bar.stacked {
+      width: 32px;
+      display: flex;
+      flex-direction: column-reverse;
+      overflow: hidden;
+    }
+    .chart-segment { width: 100%; }
+    .chart-segment:hover { opacity: 0.8; }
+    
     /* Mobile Responsive */
     @media (max-width: 768px) {
       .container { padding: 12px; }
@@ -416,6 +459,13 @@ const indexHtml = `<!DOCTYPE html>
         <div class="qoq-table-container" id="qoqTableContainer"></div>
         <div class="annual-table-container" id="annualTableContainer" style="margin-top: 24px;"></div>
       </div>
+      <div class="card" style="margin-bottom: 20px;">
+        <div class="card-title">🧩 사업부문별 매출</div>
+        <div class="chart-container">
+          <div class="chart-bars" id="segmentChartBars"></div>
+        </div>
+        <div class="chart-legend" id="segmentChartLegend"></div>
+      </div>
       <div class="card" style="margin-bottom: 20px;">
         <div class="card-title">📊 주요 재무비율</div>
         
@@ -436,10 +486,16 @@ const indexHtml = `<!DOCTYPE html>
           <div class="ratios-grid">
             <div class="ratio-item"><div class="ratio-value" id="ratioROE">-</div><div class="ratio-label">ROE</div></div>
             <div class="ratio-item"><div class="ratio-value" id="ratioOperatingMargin">-</div><div class="ratio-label">영업이익률</div></div>
-            <div class="ratio-item"><div class="ratio-value" id="ratioDividend">-</div><div class="ratio-label">배당수익률</div></div>
+            <div class="ratio-item"><div class="ratio-value" id="ratioDividend">-</div><div class="ratio-label"><a href="#dividendHistory" title="연도별 배당 내역 보기">배당수익률</a></div></div>
           </div>
         </div>
         
+        <!-- 배당 내역 -->
+        <div class="ratio-category" id="dividendHistory">
+          <div class="ratio-category-title">배당 내역</div>
+          <div class="qoq-table-container" id="dividendTableContainer"></div>
+        </div>
+        
         <!-- 안정성 지표 -->
         <div class="ratio-category">
           <div class="ratio-category-title">안정성</div>
@@ -458,11 +514,25 @@ const indexHtml = `<!DOCTYPE html>
           </div>
         </div>
       </div>
+      <div class="card" style="margin-bottom: 20px;">
+        <div class="card-title">⚖️ 기업 비교</div>
+        <div class="compare-box">
+          <input type="text" id="compareInput" placeholder="비교할 기업명을 입력하세요" autocomplete="off">
+          <div class="autocomplete" id="compareAutocomplete"></div>
+        </div>
+        <div class="compare-chips" id="compareChips"></div>
+        <div class="compare-chips" id="peerSuggestions"></div>
+        <div class="qoq-table-container" id="compareTableContainer"></div>
+      </div>
       <div class="grid grid-2">
         <div class="card">
           <div class="card-title">📋 최근 공시 (5건)</div>
           <div id="disclosuresList"><div class="loading"><div class="spinner"></div>공시 정보를 불러오는 중...</div></div>
         </div>
+        <div class="card">
+          <div class="card-title">👤 임원·주요주주 거래</div>
+          <div id="insiderTradesList"><div class="loading"><div class="spinner"></div>거래 내역을 불러오는 중...</div></div>
+        </div>
         <div class="card">
           <div class="card-title">📰 최신 뉴스 (10건)</div>
           <div id="newsList"><div class="loading"><div class="spinner"></div>뉴스를 불러오는 중...</div></div>
@@ -531,7 +601,7 @@ const indexHtml = `<!DOCTYPE html>
       autocomplete.innerHTML = companies.map(c => 
         '<div class="autocomplete-item" data-corp-code="' + c.corpCode + '" data-stock-code="' + c.stockCode + '">' +
         '<div class="company-name">' + c.corpName + '</div>' +
-        '<div class="company-meta">' + (c.stockCode || '') + ' · ' + (c.market || '') + '</div>' +
+        '<div class="company-meta">' + [c.stockCode, c.market].filter(Boolean).join(' · ') + '</div>' +
         '</div>'
       ).join('');
       autocomplete.classList.add('show');
@@ -548,10 +618,14 @@ const indexHtml = `<!DOCTYPE html>
 
     document.addEventListener('click', (e) => {
       if (!e.target.closest('.search-box')) autocomplete.classList.remove('show');
+      if (!e.target.closest('.compare-box')) compareAutocomplete.classList.remove('show');
     });
 
     async function loadCompanyData(corpCode) {
       selectedCorpCode = corpCode;
+      comparePeers = [];
+      suggestedPeers = [];
+      renderCompareChips();
       emptyState.style.display = 'none';
       companyHeader.classList.add('show');
       mainContent.style.display = 'block';
@@ -562,7 +636,11 @@ const indexHtml = `<!DOCTYPE html>
         loadCompanyInfo(corpCode),
         loadFinancialData(corpCode),
         loadRatios(corpCode),
+        loadDividends(corpCode),
+        loadSegments(corpCode),
+        loadComparison(),
         loadDisclosures(corpCode),
+        loadInsiderTrades(corpCode),
         loadNews(corpCode)
       ]);
     }
@@ -574,7 +652,10 @@ const indexHtml = `<!DOCTYPE html>
         if (data.company) {
           document.getElementById('companyName').textContent = data.company.corpName;
           document.getElementById('stockPrice').textContent = data.formattedPrice || formatPrice(data.stockPrice);
-          document.getElementById('companyInfo').textContent = (data.company.stockCode || '') + ' · ' + (data.company.market || '');
+          document.getElementById('companyInfo').textContent = (data.company.stockCode || '') + ' · ' + (data.company.market || '') +
+            (data.industry ? ' · ' + data.industry.name : '');
+          suggestedPeers = data.peers || [];
+          renderCompareChips();
         }
       } catch (err) {
         console.error('Company info error:', err);
@@ -763,9 +844,19 @@ const indexHtml = `<!DOCTYPE html>
         opRow += '<td>' + value + qoqStr + '</td>';
       });
       
+      // 영업활동현금흐름 / 잉여현금흐름 행 (이익의 현금 뒷받침 여부 확인용)
+      let ocfRow = '<td class="metric-cash">영업현금흐름</td>';
+      let fcfRow = '<td class="metric-cash">잉여현금흐름</td>';
+      chartData.forEach(d => {
+        ocfRow += '<td>' + formatKoreanCurrency(d.operatingCashFlow) + '</td>';
+        fcfRow += '<td class="' + (d.freeCashFlow >= 0 ? '' : 'negative') + '">' + formatKoreanCurrency(d.freeCashFlow) + '</td>';
+      });
+      
       container.innerHTML = '<table class="qoq-table"><thead><tr>' + headerHtml + '</tr></thead><tbody>' +
         '<tr>' + revenueRow + '</tr>' +
         '<tr>' + opRow + '</tr>' +
+        '<tr>' + ocfRow + '</tr>' +
+        '<tr>' + fcfRow + '</tr>' +
         '</tbody></table>';
     }
     
@@ -855,7 +946,10 @@ const indexHtml = `<!DOCTYPE html>
     async function loadRatios(corpCode) {
       ['ratioMarketCap', 'ratioDividend', 'ratioPER', 'ratioPBR', 'ratioROE', 'ratioEPS', 'ratio52wHigh', 'ratio52wLow', 'ratioOperatingMargin', 'ratioDebtRatio', 'ratioCurrentRatio'].forEach(id => {
         const el = document.getElementById(id);
-        if (el) el.textContent = '-';
+        if (el) {
+          el.textContent = '-';
+          el.removeAttribute('title');
+        }
       });
       try {
         const res = await fetch(API_BASE + '/companies/' + corpCode + '/ratios');
@@ -875,11 +969,283 @@ const indexHtml = `<!DOCTYPE html>
           document.getElementById('ratioDebtRatio').textContent = data.ratios.debtRatio ? data.ratios.debtRatio.toFixed(2) + '%' : '-';
           document.getElementById('ratioCurrentRatio').textContent = data.ratios.currentRatio ? data.ratios.currentRatio.toFixed(2) + '%' : '-';
         }
+        
+        // 업종/시장 내 백분위 (최근 사업보고서 기준 값으로 순위, 툴팁)
+        if (data.percentiles) {
+          const p = data.percentiles;
+          const describe = (group, d) => d.percentile === null ? '' :
+            group + ' 백분위 ' + d.percentile.toFixed(0) + ' (중앙값 ' + d.median.toFixed(2) + ', ' + d.count + '개사)';
+          const targets = { pbr: 'ratioPBR', roe: 'ratioROE', eps: 'ratioEPS', operatingMargin: 'ratioOperatingMargin', debtRatio: 'ratioDebtRatio', currentRatio: 'ratioCurrentRatio' };
+          Object.keys(targets).forEach(key => {
+            const r = p.ratios[key];
+            const lines = [describe('업종', r.industry), describe(p.market || '시장', r.market)].filter(Boolean);
+            if (lines.length > 0) {
+              const basis = p.year + '년 사업보고서 기준' + (r.value !== null ? ' ' + r.value.toFixed(2) : '');
+              document.getElementById(targets[key]).title = basis + '\\n' + lines.join('\\n');
+            }
+          });
+        }
       } catch (err) {
         console.error('Ratios error:', err);
       }
     }
 
+    const SEGMENT_COLORS = ['#7c8cff', '#48bb78', '#ed8936', '#e53e8a', '#38b2ac', '#ecc94b', '#9f7aea', '#a0aec0'];
+
+    async function loadSegments(corpCode) {
+      const bars = document.getElementById('segmentChartBars');
+      const legend = document.getElementById('segmentChartLegend');
+      bars.innerHTML = '<div class="loading"><div class="spinner"></div>부문 데이터 로딩 중...</div>';
+      legend.innerHTML = '';
+      try {
+        const res = await fetch(API_BASE + '/companies/' + corpCode + '/segments?years=4');
+        const data = await res.json();
+        // 연간(12개월) 기간만, 오래된 순
+        const periods = (data.periods || []).filter(p => p.months === 12).slice(0, 4).reverse();
+        if (periods.length === 0) {
+          bars.innerHTML = '<div class="loading">부문 데이터가 없습니다</div>';
+          return;
+        }
+        renderStackedChart(bars, legend, periods.map(p => ({
+          label: p.end.slice(0, 4),
+          parts: p.segments
+            .filter(s => !s.isAdjustment && s.revenue > 0)
+            .map(s => ({ name: s.name, value: s.revenue }))
+        })));
+      } catch (err) {
+        console.error('Segments error:', err);
+        bars.innerHTML = '<div class="loading">부문 데이터를 불러올 수 없습니다</div>';
+      }
+    }
+
+    // renderChart의 누적 막대 버전: groups = [{ label, parts: [{ name, value }] }]
+    function renderStackedChart(bars, legend, groups) {
+      const tooltip = document.getElementById('chartTooltip');
+      const names = [];
+      groups.forEach(g => g.parts.forEach(p => { if (names.indexOf(p.name) === -1) names.push(p.name); }));
+      const colorOf = name => SEGMENT_COLORS[names.indexOf(name) % SEGMENT_COLORS.length];
+      
+      const totals = groups.map(g => g.parts.reduce((sum, p) => sum + p.value, 0));
+      const maxTotal = Math.max(...totals);
+      
+      bars.innerHTML = groups.map((g, i) => {
+        const height = maxTotal > 0 ? (totals[i] / maxTotal) * 180 : 0;
+        const segments = g.parts.map((p, j) =>
+          '<div class="chart-segment" data-group="' + i + '" data-part="' + j + '" style="height: ' + (totals[i] > 0 ? (p.value / totals[i]) * 100 : 0) + '%; background: ' + colorOf(p.name) + '"></div>'
+        ).join('');
+        
+        return '<div class="chart-group">' +
+          '<div class="chart-bar-wrapper">' +
+          '<div class="chart-bar stacked animate" style="height: ' + Math.max(height, 4) + 'px; animation-delay: ' + (i * 0.1) + 's">' + segments + '</div>' +
+          '</div>' +
+          '<div class="chart-label">' + g.label + '</div>' +
+          '</div>';
+      }).join('');
+      
+      legend.innerHTML = names.map(name =>
+        '<div class="legend-item"><div class="legend-dot" style="background: ' + colorOf(name) + '"></div>' + name + '</div>'
+      ).join('');
+      
+      bars.querySelectorAll('.chart-segment').forEach(el => {
+        const g = groups[parseInt(el.dataset.group)];
+        const p = g.parts[parseInt(el.dataset.part)];
+        const total = totals[parseInt(el.dataset.group)];
+        el.addEventListener('mouseenter', (e) => {
+          tooltip.querySelector('.tooltip-title').textContent = g.label + ' ' + p.name;
+          tooltip.querySelector('.tooltip-value').textContent = formatKoreanCurrency(p.value);
+          const share = tooltip.querySelector('.tooltip-change');
+          share.textContent = '비중: ' + (total > 0 ? (p.value / total * 100).toFixed(1) : '0') + '%';
+          share.className = 'tooltip-change';
+          share.style.display = 'block';
+          tooltip.style.left = (e.clientX + 10) + 'px';
+          tooltip.style.top = (e.clientY - 10) + 'px';
+          tooltip.classList.add('show');
+        });
+        el.addEventListener('mousemove', (e) => {
+          tooltip.style.left = (e.clientX + 10) + 'px';
+          tooltip.style.top = (e.clientY - 10) + 'px';
+        });
+        el.addEventListener('mouseleave', () => tooltip.classList.remove('show'));
+      });
+    }
+
+    // 비교 기업: [{ corpCode, corpName }] (선택한 기업 포함 최대 10개)
+    let comparePeers = [];
+    // 같은 업종 상장사 (매출액 순, /companies/:corpCode의 peers)
+    let suggestedPeers = [];
+    let compareTimer = null;
+    const compareInput = document.getElementById('compareInput');
+    const compareAutocomplete = document.getElementById('compareAutocomplete');
+
+    compareInput.addEventListener('input', (e) => {
+      const query = e.target.value.trim();
+      clearTimeout(compareTimer);
+      if (query.length < 2) {
+        compareAutocomplete.classList.remove('show');
+        return;
+      }
+      compareTimer = setTimeout(async () => {
+        try {
+          const res = await fetch(API_BASE + '/companies/search?q=' + encodeURIComponent(query));
+          const data = await res.json();
+          const candidates = (data.companies || []).filter(c =>
+            c.corpCode !== selectedCorpCode && !comparePeers.some(p => p.corpCode === c.corpCode)
+          );
+          if (candidates.length === 0) {
+            compareAutocomplete.innerHTML = '<div class="autocomplete-item">검색 결과가 없습니다</div>';
+            compareAutocomplete.classList.add('show');
+            return;
+          }
+          compareAutocomplete.innerHTML = candidates.map(c =>
+            '<div class="autocomplete-item" data-corp-code="' + c.corpCode + '">' +
+            '<div class="company-name">' + c.corpName + '</div>' +
+            '<div class="company-meta">' + (c.stockCode || '') + '</div>' +
+            '</div>'
+          ).join('');
+          compareAutocomplete.classList.add('show');
+          compareAutocomplete.querySelectorAll('.autocomplete-item').forEach(item => {
+            item.addEventListener('click', () => {
+              if (comparePeers.length < 9) {
+                comparePeers.push({ corpCode: item.dataset.corpCode, corpName: item.querySelector('.company-name').textContent });
+              }
+              compareInput.value = '';
+              compareAutocomplete.classList.remove('show');
+              renderCompareChips();
+              loadComparison();
+            });
+          });
+        } catch (err) {
+          console.error('Compare search error:', err);
+        }
+      }, 300);
+    });
+
+    function renderCompareChips() {
+      const chips = document.getElementById('compareChips');
+      chips.innerHTML = comparePeers.map(p =>
+        '<span class="compare-chip" data-corp-code="' + p.corpCode + '" title="비교에서 제외">' + p.corpName + ' ×</span>'
+      ).join('');
+      chips.querySelectorAll('.compare-chip').forEach(chip => {
+        chip.addEventListener('click', () => {
+          comparePeers = comparePeers.filter(p => p.corpCode !== chip.dataset.corpCode);
+          renderCompareChips();
+          loadComparison();
+        });
+      });
+      
+      const suggestions = document.getElementById('peerSuggestions');
+      const candidates = suggestedPeers.filter(p => !comparePeers.some(c => c.corpCode === p.corpCode));
+      suggestions.innerHTML = candidates.length === 0 || comparePeers.length >= 9 ? '' :
+        '<span class="company-meta">동종 업종:</span>' + candidates.map(p =>
+          '<span class="compare-chip suggested" data-corp-code="' + p.corpCode + '" title="비교에 추가">+ ' + p.corpName + '</span>'
+        ).join('');
+      suggestions.querySelectorAll('.compare-chip').forEach(chip => {
+        chip.addEventListener('click', () => {
+          const peer = suggestedPeers.find(p => p.corpCode === chip.dataset.corpCode);
+          if (peer && comparePeers.length < 9) {
+            comparePeers.push({ corpCode: peer.corpCode, corpName: peer.corpName });
+          }
+          renderCompareChips();
+          loadComparison();
+        });
+      });
+    }
+
+    async function loadComparison() {
+      const container = document.getElementById('compareTableContainer');
+      if (!selectedCorpCode || comparePeers.length === 0) {
+        container.innerHTML = '<div class="loading">비교할 기업을 추가하세요</div>';
+        return;
+      }
+      container.innerHTML = '<div class="loading"><div class="spinner"></div>비교 데이터를 불러오는 중...</div>';
+      try {
+        const corpCodes = [selectedCorpCode].concat(comparePeers.map(p => p.corpCode));
+        const res = await fetch(API_BASE + '/compare?corpCodes=' + corpCodes.join(','));
+        const data = await res.json();
+        if (!data.companies || data.companies.length === 0) {
+          container.innerHTML = '<div class="loading">비교 데이터가 없습니다</div>';
+          return;
+        }
+        
+        const percent = (v) => v === null || v === undefined ? '-' : v.toFixed(1) + '%';
+        const ratio = (v) => v === null || v === undefined ? '-' : v.toFixed(2);
+        
+        // TTM 실적 및 재무비율
+        let summaryRows = '';
+        data.companies.forEach(c => {
+          const r = c.ratios || {};
+          summaryRows += '<tr><td>' + c.corpName + '</td>' +
+            '<td>' + formatKoreanCurrency(c.ttm.revenue) + '</td>' +
+            '<td>' + formatKoreanCurrency(c.ttm.operatingProfit) + '</td>' +
+            '<td>' + formatKoreanCurrency(c.ttm.netIncome) + '</td>' +
+            '<td>' + percent(r.operatingMargin) + '</td>' +
+            '<td>' + percent(r.roe) + '</td>' +
+            '<td>' + percent(r.debtRatio) + '</td>' +
+            '<td>' + ratio(r.pbr) + '</td></tr>';
+        });
+        
+        // 분기별 매출액 (최근 4개 분기)
+        const offset = Math.max(0, data.periods.length - 4);
+        const periods = data.periods.slice(offset);
+        let revenueHeader = '<th>분기 매출액</th>';
+        periods.forEach(p => { revenueHeader += '<th>' + p.label + '</th>'; });
+        let revenueRows = '';
+        data.companies.forEach(c => {
+          const fiscalNote = c.fiscalYearEndMonth && c.fiscalYearEndMonth !== 12 ? ' (' + c.fiscalYearEndMonth + '월 결산)' : '';
+          revenueRows += '<tr><td class="metric-revenue">' + c.corpName + fiscalNote + '</td>';
+          c.revenue.slice(offset).forEach(v => { revenueRows += '<td>' + formatKoreanCurrency(v) + '</td>'; });
+          revenueRows += '</tr>';
+        });
+        
+        container.innerHTML = '<table class="qoq-table"><thead><tr>' +
+          '<th>기업 (TTM)</th><th>매출액</th><th>영업이익</th><th>순이익</th><th>영업이익률</th><th>ROE</th><th>부채비율</th><th>PBR</th>' +
+          '</tr></thead><tbody>' + summaryRows + '</tbody></table>' +
+          '<table class="qoq-table" style="margin-top: 16px;"><thead><tr>' + revenueHeader + '</tr></thead><tbody>' +
+          revenueRows + '</tbody></table>';
+      } catch (err) {
+        console.error('Compare error:', err);
+        container.innerHTML = '<div class="loading">비교 데이터를 불러올 수 없습니다</div>';
+      }
+    }
+
+    async function loadDividends(corpCode) {
+      const container = document.getElementById('dividendTableContainer');
+      container.innerHTML = '<div class="loading"><div class="spinner"></div>배당 내역을 불러오는 중...</div>';
+      try {
+        const res = await fetch(API_BASE + '/companies/' + corpCode + '/dividends');
+        const data = await res.json();
+        if (!data.history || data.history.length === 0) {
+          container.innerHTML = '<div class="loading">배당 내역이 없습니다</div>';
+          return;
+        }
+        
+        // 오래된 연도부터 표시
+        const history = data.history.slice().reverse();
+        const commonOf = (h) => h.shareClasses.find(s => s.shareClass === '보통주') || h.shareClasses[0] || {};
+        
+        let headerHtml = '<th>배당</th>';
+        let dpsRow = '<td class="metric-revenue">주당배당금</td>';
+        let yieldRow = '<td class="metric-op">배당수익률</td>';
+        let payoutRow = '<td class="metric-net">배당성향</td>';
+        history.forEach(h => {
+          const common = commonOf(h);
+          headerHtml += '<th>' + h.year + '</th>';
+          dpsRow += '<td>' + (common.dividendPerShare ? common.dividendPerShare.toLocaleString() + '원' : '-') + '</td>';
+          yieldRow += '<td>' + (common.dividendYield ? common.dividendYield.toFixed(2) + '%' : '-') + '</td>';
+          payoutRow += '<td>' + (h.payoutRatio ? h.payoutRatio.toFixed(1) + '%' : '-') + '</td>';
+        });
+        
+        container.innerHTML = '<table class="qoq-table"><thead><tr>' + headerHtml + '</tr></thead><tbody>' +
+          '<tr>' + dpsRow + '</tr>' +
+          '<tr>' + yieldRow + '</tr>' +
+          '<tr>' + payoutRow + '</tr>' +
+          '</tbody></table>';
+      } catch (err) {
+        console.error('Dividends error:', err);
+        container.innerHTML = '<div class="loading">배당 내역을 불러올 수 없습니다</div>';
+      }
+    }
+
     async function loadDisclosures(corpCode) {
       const list = document.getElementById('disclosuresList');
       list.innerHTML = '<div class="loading"><div class="spinner"></div>공시 정보를 불러오는 중...</div>';
@@ -903,6 +1269,31 @@ const indexHtml = `<!DOCTYPE html>
       }
     }
 
+    async function loadInsiderTrades(corpCode) {
+      const list = document.getElementById('insiderTradesList');
+      list.innerHTML = '<div class="loading"><div class="spinner"></div>거래 내역을 불러오는 중...</div>';
+      try {
+        const res = await fetch(API_BASE + '/companies/' + corpCode + '/insider-trades?limit=5');
+        const data = await res.json();
+        if (data.trades && data.trades.length > 0) {
+          list.innerHTML = data.trades.map(t => {
+            const change = t.sharesChange || 0;
+            const changeStr = (change > 0 ? '+' : '') + change.toLocaleString() + '주';
+            return '<div class="list-item">' +
+              '<a href="' + t.url + '" target="_blank" rel="noopener">' +
+              '<div class="list-title">' + t.reporter + ' <span class="' + (change >= 0 ? 'positive' : 'negative') + '">' + changeStr + '</span></div>' +
+              '<div class="list-meta">' + formatDate(t.reportDate) + (t.relationship ? ' · ' + t.relationship : '') + '</div>' +
+              '</a></div>';
+          }).join('');
+        } else {
+          list.innerHTML = '<div class="loading">거래 내역이 없습니다</div>';
+        }
+      } catch (err) {
+        console.error('Insider trades error:', err);
+        list.innerHTML = '<div class="loading">거래 내역을 불러올 수 없습니다</div>';
+      }
+    }
+
     async function loadNews(corpCode) {
       const list = document.getElementById('newsList');
       list.innerHTML = '<div class="loading"><div class="spinner"></div>뉴스를 불러오는 중...</div>';
@@ -958,18 +1349,20 @@ app.get('/', (c) => {
   return c.html(indexHtml);
 });
 
-// Initialize company list cache on first request (MUST be before routes)
-app.use('/api/*', async (c, next) => {
+/**
+ * Initialize the company search index from KV (요청/스케줄 작업 공통)
+ */
+async function initializeSearchIndex(env: Env): Promise<void> {
   const searchService = getSearchService();
   
   if (!searchService.isInitialized()) {
     try {
-      const cache = createCacheManager(c.env.COMPANY_CACHE);
+      const cache = createCacheManager(env.COMPANY_CACHE);
       let companies = await cache.get<any[]>(CACHE_KEYS.COMPANY_LIST);
       
       if (!companies) {
         // 회사 목록은 KV에 미리 저장되어 있음 (company_list 키)
-        const kvCompanies = await c.env.COMPANY_CACHE.get('company_list', 'json');
+        const kvCompanies = await env.COMPANY_CACHE.get('company_list', 'json');
         
         if (kvCompanies) {
           companies = kvCompanies as any[];
@@ -984,7 +1377,11 @@ app.use('/api/*', async (c, next) => {
       // Silent fail - search will return empty results
     }
   }
-  
+}
+
+// Initialize company list cache on first request (MUST be before routes)
+app.use('/api/*', async (c, next) => {
+  await initializeSearchIndex(c.env);
   await next();
 });
 
@@ -1011,5 +1408,15 @@ app.onError((err, c) => {
   return c.json(error, 500);
 });
 
-// Export the application
-export default app;
+// Export the application with the cron handler (wrangler.toml [triggers], src/jobs/scheduled.ts)
+export default {
+  fetch: app.fetch,
+  
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil((async () => {
+      await initializeSearchIndex(env);
+      // 캐시 예열은 앱 라우트를 그대로 호출해 사용자 요청과 같은 캐시 키를 채움
+      await runScheduledJobs(controller.cron, env, async (path) => app.request(path, {}, env, ctx));
+    })());
+  }
+};
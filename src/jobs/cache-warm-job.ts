@@ -0,0 +1,66 @@
+/**
+ * Cache Warm Job
+ *
+ * Request `/financial` and `/disclosures` for a watch set of companies through
+ * the app itself, so the route caches are filled with exactly the keys users hit.
+ * 응답 캐시가 남아 있으면 라우트가 캐시를 그대로 반환하므로 요청 전에 해당 키를 삭제.
+ * 대상은 WATCH_CORP_CODES 환경변수 (corpCode 쉼표 구분).
+ */
+
+import type { Env } from '../types';
+import { createCacheManager, CACHE_KEYS } from '../cache/cache-manager';
+
+export type AppFetcher = (path: string) => Promise<Response>;
+
+// DART 요청 한도를 고려해 기업당 요청을 순차 실행
+// 캐시 키는 파라미터 없는 기본 요청의 키 (financial: auto/12분기, disclosures: 최근 정기공시)
+const WARM_TARGETS = [
+  {
+    path: (corpCode: string) => `/api/companies/${corpCode}/financial`,
+    cacheKey: (corpCode: string) => CACHE_KEYS.FINANCIAL(corpCode)
+  },
+  {
+    path: (corpCode: string) => `/api/companies/${corpCode}/disclosures`,
+    cacheKey: (corpCode: string) => CACHE_KEYS.DISCLOSURES(corpCode)
+  }
+];
+
+/**
+ * Parse the watch set (8자리 corpCode만, 중복 제거)
+ */
+export function parseWatchCorpCodes(value: string | undefined): string[] {
+  const codes = (value || '')
+    .split(',')
+    .map(code => code.trim())
+    .filter(code => /^\d{8}$/.test(code));
+  return Array.from(new Set(codes));
+}
+
+export async function runCacheWarmJob(
+  env: Env,
+  fetcher: AppFetcher
+): Promise<{ companies: number; warmed: number; failed: string[] }> {
+  const corpCodes = parseWatchCorpCodes(env.WATCH_CORP_CODES);
+  const cache = createCacheManager(env.COMPANY_CACHE);
+  let warmed = 0;
+  const failed: string[] = [];
+
+  for (const corpCode of corpCodes) {
+    for (const target of WARM_TARGETS) {
+      const path = target.path(corpCode);
+      try {
+        await cache.delete(target.cacheKey(corpCode));
+        const response = await fetcher(path);
+        if (response.ok) {
+          warmed++;
+        } else {
+          failed.push(`${path} (${response.status})`);
+        }
+      } catch (error) {
+        failed.push(`${path} (${error instanceof Error ? error.message : 'Unknown error'})`);
+      }
+    }
+  }
+
+  return { companies: corpCodes.length, warmed, failed };
+}
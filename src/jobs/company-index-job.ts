@@ -0,0 +1,34 @@
+/**
+ * Company Index Job
+ *
+ * Scheduled job that fills the company index (업종코드/시장, 최근 사업보고서 매출액).
+ * 인덱스는 KV 키 하나에 전체 배열로 저장되므로 요청 처리 중에는 읽기만 하고
+ * 이 작업에서만 갱신 (동시 쓰기로 인한 유실 방지).
+ */
+
+import type { Env } from '../types';
+import { createCacheManager } from '../cache/cache-manager';
+import { createDARTClient } from '../clients/dart-client';
+import { schedulerConfigFromEnv } from '../clients/request-scheduler';
+import { createCompanyIndexService } from '../services/company-index';
+import type { RefreshOptions } from '../services/company-index';
+
+// 실행당 DART 42회 (기업개황 40회 + 다중회사 주요계정 2회)
+const DEFAULT_COMPANY_INDEX_JOB_OPTIONS: RefreshOptions = {
+  industryBatch: 40,
+  revenueBatch: 2
+};
+
+export async function runCompanyIndexJob(
+  env: Env,
+  options: Partial<RefreshOptions> = {}
+): Promise<{ industries: number; revenues: number; remaining: number }> {
+  const cache = createCacheManager(env.COMPANY_CACHE);
+  const dartClient = createDARTClient(env.DART_API_KEY, schedulerConfigFromEnv(env));
+  const companyIndex = createCompanyIndexService(cache, dartClient);
+
+  const result = await companyIndex.refresh({ ...DEFAULT_COMPANY_INDEX_JOB_OPTIONS, ...options });
+  const remaining = (await companyIndex.getEntries()).filter(entry => !entry.industryUpdatedAt).length;
+
+  return { ...result, remaining };
+}
@@ -0,0 +1,55 @@
+/**
+ * Company List Job
+ *
+ * Refresh the listed-company list from DART corpCode.xml (일 1회 갱신되는 고유번호 파일)
+ * and store it under the keys the `/api/*` middleware reads.
+ */
+
+import type { Company, Env, Market } from '../types';
+import { createCacheManager, CACHE_KEYS, CACHE_TTL } from '../cache/cache-manager';
+import { createDARTClient } from '../clients/dart-client';
+import { schedulerConfigFromEnv } from '../clients/request-scheduler';
+import { getSearchService } from '../services/search-service';
+import { createCompanyIndexService } from '../services/company-index';
+
+// 미리 저장된 원본 회사 목록 키 (캐시 만료 시 미들웨어가 읽음)
+const COMPANY_LIST_KV_KEY = 'company_list';
+
+export async function runCompanyListJob(
+  env: Env
+): Promise<{ companies: number; added: number; removed: number }> {
+  const cache = createCacheManager(env.COMPANY_CACHE);
+  const dartClient = createDARTClient(env.DART_API_KEY, schedulerConfigFromEnv(env));
+
+  const companies = await dartClient.getCompanyList();
+  // 비정상 응답으로 기존 목록을 지우지 않도록 빈 목록은 저장하지 않음
+  if (companies.length === 0) {
+    throw new Error('corpCode.xml에 상장사가 없습니다.');
+  }
+
+  const previous = getSearchService().getCompanies();
+  const previousCodes = new Set(previous.map(company => company.corpCode));
+  const currentCodes = new Set(companies.map(company => company.corpCode));
+
+  // corpCode.xml에는 법인구분이 없어 기존 목록/회사 인덱스(기업개황)에서 확인된 시장은 유지
+  const indexed = (await createCompanyIndexService(cache, dartClient).getEntries())
+    .filter(entry => entry.industryUpdatedAt && entry.market);
+  const markets = new Map<string, Market | null>([
+    ...previous.filter(company => company.market).map(company => [company.corpCode, company.market] as const),
+    ...indexed.map(entry => [entry.corpCode, entry.market] as const)
+  ]);
+  const merged: Company[] = companies.map(company => ({
+    ...company,
+    market: company.market ?? markets.get(company.corpCode) ?? null
+  }));
+
+  await env.COMPANY_CACHE?.put(COMPANY_LIST_KV_KEY, JSON.stringify(merged));
+  await cache.set(CACHE_KEYS.COMPANY_LIST, merged, CACHE_TTL.COMPANY_LIST);
+  getSearchService().initializeIndex(merged);
+
+  return {
+    companies: merged.length,
+    added: merged.filter(company => !previousCodes.has(company.corpCode)).length,
+    removed: previous.filter(company => !currentCodes.has(company.corpCode)).length
+  };
+}
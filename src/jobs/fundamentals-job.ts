@@ -0,0 +1,36 @@
+/**
+ * Fundamentals Job
+ *
+ * Scheduled job that keeps the screener's fundamentals table up to date.
+ * Workers 실행당 하위 요청 수 제한이 있어 한 번에 일부 회사만 갱신하고,
+ * 크론 주기마다 오래된 회사부터 이어서 처리. 대상 회사와 업종/시장은
+ * 회사 인덱스 작업(company-index)이 채운 인덱스를 사용.
+ */
+
+import type { Env } from '../types';
+import { createCacheManager } from '../cache/cache-manager';
+import { createDARTClient } from '../clients/dart-client';
+import { schedulerConfigFromEnv } from '../clients/request-scheduler';
+import { createCompanyIndexService } from '../services/company-index';
+import { createFundamentalsService } from '../services/fundamentals';
+
+export interface FundamentalsJobOptions {
+  batch: number;  // 펀더멘털 행 갱신 회사 수 (100개사당 DART 1회 + 회사별 주가 조회)
+}
+
+// 실행당 최대 41회 (DART 1회 + 주가 40회)
+const DEFAULT_FUNDAMENTALS_JOB_OPTIONS: FundamentalsJobOptions = {
+  batch: 40
+};
+
+export async function runFundamentalsJob(
+  env: Env,
+  options: Partial<FundamentalsJobOptions> = {}
+): Promise<{ updated: number; removed: number; remaining: number }> {
+  const { batch } = { ...DEFAULT_FUNDAMENTALS_JOB_OPTIONS, ...options };
+  const cache = createCacheManager(env.COMPANY_CACHE);
+  const dartClient = createDARTClient(env.DART_API_KEY, schedulerConfigFromEnv(env));
+  const companyIndex = createCompanyIndexService(cache, dartClient);
+
+  return createFundamentalsService(cache, dartClient, companyIndex).refresh({ batch });
+}
@@ -0,0 +1,28 @@
+/**
+ * Ratio Snapshot Job
+ *
+ * Scheduled job that refreshes the ratio snapshot used for industry/market
+ * percentiles in `/ratios`. 회사 인덱스에서 업종/시장을 확인한 회사만 대상으로
+ * 오래된 회사부터 일부씩 갱신.
+ */
+
+import type { Env } from '../types';
+import { createCacheManager } from '../cache/cache-manager';
+import { createDARTClient } from '../clients/dart-client';
+import { schedulerConfigFromEnv } from '../clients/request-scheduler';
+import { createCompanyIndexService } from '../services/company-index';
+import { createRatioSnapshotService } from '../services/ratio-snapshot';
+
+// 100개사당 DART 1회 + 재무정보가 있는 회사별 주가 조회 (실행당 최대 41회)
+const DEFAULT_RATIO_SNAPSHOT_BATCH = 40;
+
+export async function runRatioSnapshotJob(
+  env: Env,
+  batch: number = DEFAULT_RATIO_SNAPSHOT_BATCH
+): Promise<{ updated: number }> {
+  const cache = createCacheManager(env.COMPANY_CACHE);
+  const dartClient = createDARTClient(env.DART_API_KEY, schedulerConfigFromEnv(env));
+  const companyIndex = createCompanyIndexService(cache, dartClient);
+
+  return createRatioSnapshotService(cache, dartClient, companyIndex).refresh({ batch });
+}
@@ -0,0 +1,100 @@
+/**
+ * Scheduled Jobs
+ *
+ * Map cron triggers (wrangler.toml [triggers]) to jobs and record each run's
+ * result in KV. 로컬 실행: `npm run dev:scheduled` 후
+ * `curl "http://localhost:8787/__scheduled?cron=0+18+*+*+*"`
+ */
+
+import type { Env, JobName, JobResult } from '../types';
+import type { ICacheManager } from '../cache/cache-manager';
+import { createCacheManager, CACHE_KEYS, CACHE_TTL } from '../cache/cache-manager';
+import { runCompanyListJob } from './company-list-job';
+import { runCacheWarmJob } from './cache-warm-job';
+import type { AppFetcher } from './cache-warm-job';
+import { runCompanyIndexJob } from './company-index-job';
+import { runRatioSnapshotJob } from './ratio-snapshot-job';
+import { runFundamentalsJob } from './fundamentals-job';
+
+// UTC 기준 (18:00 UTC = 03:00 KST)
+// 크론 실행 1회의 하위 요청 수 제한(50개) 안에 들도록 일부 회사씩 처리하는 작업은 서로 다른 시각에 실행
+// (비율 스냅샷/펀더멘털은 회사 인덱스 작업이 채운 업종/시장을 사용)
+export const CRON_JOBS: Record<string, JobName[]> = {
+  '0 18 * * *': ['company-list'],
+  '0 * * * *': ['cache-warm'],
+  '5,35 * * * *': ['company-index'],
+  '15 * * * *': ['ratio-snapshot'],
+  '25,55 * * * *': ['fundamentals']
+};
+
+// 작업별로 최근 실행 기록 보관 (동시에 실행되는 크론끼리 덮어쓰지 않도록 작업별 키)
+const MAX_JOB_RESULTS = 50;
+
+const JOBS: Record<JobName, (env: Env, fetcher: AppFetcher) => Promise<Record<string, unknown>>> = {
+  'company-list': (env) => runCompanyListJob(env),
+  'cache-warm': (env, fetcher) => runCacheWarmJob(env, fetcher),
+  'company-index': (env) => runCompanyIndexJob(env),
+  'ratio-snapshot': (env) => runRatioSnapshotJob(env),
+  'fundamentals': (env) => runFundamentalsJob(env)
+};
+
+export const JOB_NAMES = Object.keys(JOBS) as JobName[];
+
+/**
+ * Recent job results, newest first
+ */
+export async function getJobResults(cache: ICacheManager, job?: JobName): Promise<JobResult[]> {
+  const jobs = job ? [job] : JOB_NAMES;
+  const results = await Promise.all(jobs.map(name => cache.get<JobResult[]>(CACHE_KEYS.JOB_RESULTS(name))));
+  return results
+    .flatMap(list => list || [])
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+async function recordJobResult(cache: ICacheManager, result: JobResult): Promise<void> {
+  const key = CACHE_KEYS.JOB_RESULTS(result.job);
+  const results = await cache.get<JobResult[]>(key) || [];
+  await cache.set(key, [result, ...results].slice(0, MAX_JOB_RESULTS), CACHE_TTL.JOB_RESULTS);
+}
+
+async function runJob(env: Env, cron: string, job: JobName, fetcher: AppFetcher): Promise<JobResult> {
+  const started = Date.now();
+  let result: JobResult;
+
+  try {
+    const output = await JOBS[job](env, fetcher);
+    result = {
+      job,
+      cron,
+      startedAt: new Date(started).toISOString(),
+      finishedAt: new Date().toISOString(),
+      durationMs: Date.now() - started,
+      status: 'success',
+      result: output
+    };
+  } catch (error) {
+    result = {
+      job,
+      cron,
+      startedAt: new Date(started).toISOString(),
+      finishedAt: new Date().toISOString(),
+      durationMs: Date.now() - started,
+      status: 'failure',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  await recordJobResult(createCacheManager(env.COMPANY_CACHE), result);
+  return result;
+}
+
+/**
+ * Run the jobs registered for a cron expression (등록되지 않은 크론은 무시)
+ */
+export async function runScheduledJobs(cron: string, env: Env, fetcher: AppFetcher): Promise<JobResult[]> {
+  const results: JobResult[] = [];
+  for (const job of CRON_JOBS[cron] || []) {
+    results.push(await runJob(env, cron, job, fetcher));
+  }
+  return results;
+}
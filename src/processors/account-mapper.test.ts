@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { DARTAccountItem } from '../types';
+import { findAccount, mapAccounts, resolveIndustryProfile } from './account-mapper';
+
+const account = (sj_div: string, account_nm: string, account_id?: string, amount = '100'): DARTAccountItem => ({
+  sj_div,
+  account_nm,
+  account_id,
+  thstrm_amount: amount
+});
+
+describe('resolveIndustryProfile', () => {
+  it('maps KSIC codes to financial industry profiles', () => {
+    expect(resolveIndustryProfile('64121')).toBe('bank');
+    expect(resolveIndustryProfile('65110')).toBe('insurance');
+    expect(resolveIndustryProfile('66121')).toBe('securities');
+    expect(resolveIndustryProfile('64992')).toBe('holding');
+    expect(resolveIndustryProfile('264')).toBe('general');
+    expect(resolveIndustryProfile(undefined)).toBe('general');
+  });
+});
+
+describe('findAccount', () => {
+  it('prefers account_id over account_nm', () => {
+    const items = [
+      account('IS', '매출액', undefined, '1'),
+      account('IS', '수익(매출액)', 'ifrs-full_Revenue', '2')
+    ];
+    const found = findAccount(items, 'revenue');
+    expect(found?.item.thstrm_amount).toBe('2');
+    expect(found?.match).toEqual({
+      industry: 'general',
+      matchedBy: 'account_id',
+      key: 'ifrs-full_Revenue',
+      accountName: '수익(매출액)'
+    });
+  });
+
+  it('matches account names ignoring whitespace', () => {
+    const found = findAccount([account('IS', '영업이익 (손실)')], 'operatingProfit');
+    expect(found?.match).toMatchObject({ matchedBy: 'account_nm', key: '영업이익(손실)' });
+  });
+
+  it('only searches the statement divisions of the metric', () => {
+    expect(findAccount([account('CF', '자산총계', 'ifrs-full_Assets')], 'totalAssets')).toBeNull();
+    expect(findAccount([account('BS', '자산총계', 'ifrs-full_Assets')], 'totalAssets')).not.toBeNull();
+  });
+
+  it('tries the industry rules before the general ones', () => {
+    const items = [
+      account('IS', '영업수익', undefined, '1'),
+      account('IS', '이자수익', 'ifrs-full_RevenueFromInterest', '2')
+    ];
+    expect(findAccount(items, 'revenue', 'bank')?.match).toMatchObject({ industry: 'bank', key: 'ifrs-full_RevenueFromInterest' });
+
+    const byName = [account('IS', '이자수익', undefined, '1'), account('IS', '영업수익', undefined, '2')];
+    expect(findAccount(byName, 'revenue', 'bank')?.match).toMatchObject({ industry: 'bank', key: '영업수익' });
+    expect(findAccount(byName, 'revenue', 'general')?.match).toMatchObject({ industry: 'general', key: '영업수익' });
+  });
+
+  it('matches account_id in any rule before falling back to names', () => {
+    const items = [account('IS', '영업수익'), account('IS', '이자수익', 'ifrs-full_RevenueFromInterest')];
+    expect(findAccount(items, 'revenue')?.match).toMatchObject({ industry: 'bank', matchedBy: 'account_id' });
+  });
+
+  it('falls back to industry rules for an unknown industry', () => {
+    const found = findAccount([account('IS', '보험수익')], 'revenue');
+    expect(found?.match).toMatchObject({ industry: 'insurance', matchedBy: 'account_nm', key: '보험수익' });
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(findAccount([account('IS', '기타수익')], 'revenue')).toBeNull();
+  });
+});
+
+describe('mapAccounts', () => {
+  it('resolves several metrics and reports unmatched ones as null', () => {
+    const { items, report } = mapAccounts(
+      [account('IS', '당기순이익', 'ifrs-full_ProfitLoss', '30'), account('BS', '자산총계', undefined, '500')],
+      ['netIncome', 'totalAssets', 'eps']
+    );
+    expect(items.netIncome?.thstrm_amount).toBe('30');
+    expect(items.totalAssets?.thstrm_amount).toBe('500');
+    expect(items.eps).toBeUndefined();
+    expect(report.netIncome?.matchedBy).toBe('account_id');
+    expect(report.totalAssets?.matchedBy).toBe('account_nm');
+    expect(report.eps).toBeNull();
+  });
+});
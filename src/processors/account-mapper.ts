@@ -0,0 +1,284 @@
+/**
+ * Account Mapper
+ *
+ * Resolve financial line items from DART account rows by IFRS account_id,
+ * falling back to Korean account_nm and per-industry labels
+ * (은행/보험/증권/지주회사는 매출액 대신 영업수익·이자수익 등을 사용).
+ */
+
+import type {
+  AccountMatch,
+  AccountMappingReport,
+  AccountMetric,
+  DARTAccountItem,
+  IndustryProfile,
+  StatementDivision
+} from '../types';
+
+interface AccountRule {
+  accountIds: string[];
+  accountNames: string[];
+}
+
+interface MetricRules {
+  divisions: StatementDivision[];
+  general: AccountRule;
+  fallbacks?: Partial<Record<Exclude<IndustryProfile, 'general'>, AccountRule>>;
+}
+
+const INCOME_DIVISIONS: StatementDivision[] = ['IS', 'CIS'];
+const BALANCE_DIVISIONS: StatementDivision[] = ['BS'];
+const CASH_FLOW_DIVISIONS: StatementDivision[] = ['CF'];
+// 주석 수준 항목은 XBRL 주석 또는 손익/현금흐름표 조정 항목에서 탐색
+const NOTE_DIVISIONS: StatementDivision[] = ['NOTES', 'IS', 'CIS', 'CF'];
+
+// 업종 미지정 시 폴백 적용 순서
+const FALLBACK_ORDER: Exclude<IndustryProfile, 'general'>[] = ['bank', 'insurance', 'securities', 'holding'];
+
+/**
+ * 지표별 계정 매핑 규칙
+ * - accountIds: IFRS/DART 표준계정코드 (구 taxonomy의 ifrs_ 접두사 포함)
+ * - accountNames: 공백 제거 후 정확히 일치하는 계정명
+ */
+export const ACCOUNT_RULES: Record<AccountMetric, MetricRules> = {
+  revenue: {
+    divisions: INCOME_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_Revenue', 'ifrs_Revenue'],
+      accountNames: ['매출액', '수익(매출액)', '매출', '영업수익']
+    },
+    fallbacks: {
+      bank: {
+        accountIds: [
+          'ifrs-full_RevenueFromInterest',
+          'ifrs-full_InterestRevenueCalculatedUsingEffectiveInterestMethod'
+        ],
+        accountNames: ['영업수익', '이자수익']
+      },
+      insurance: {
+        accountIds: ['ifrs-full_InsuranceRevenue', 'ifrs-full_RevenueFromInsuranceContractsIssued'],
+        accountNames: ['영업수익', '보험수익', '보험료수익']
+      },
+      securities: {
+        accountIds: ['ifrs-full_FeeAndCommissionIncome'],
+        accountNames: ['영업수익', '수수료수익']
+      },
+      holding: {
+        accountIds: [],
+        accountNames: ['영업수익']
+      }
+    }
+  },
+  operatingProfit: {
+    divisions: INCOME_DIVISIONS,
+    general: {
+      accountIds: ['dart_OperatingIncomeLoss', 'ifrs-full_ProfitLossFromOperatingActivities'],
+      accountNames: ['영업이익', '영업이익(손실)', '영업손익', '영업손실']
+    }
+  },
+  netIncome: {
+    divisions: INCOME_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_ProfitLoss', 'ifrs_ProfitLoss'],
+      accountNames: [
+        '당기순이익', '당기순이익(손실)', '당기순손실',
+        '분기순이익', '분기순이익(손실)', '반기순이익', '반기순이익(손실)',
+        '연결당기순이익', '연결분기순이익', '연결반기순이익'
+      ]
+    }
+  },
+  netIncomeControlling: {
+    divisions: INCOME_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_ProfitLossAttributableToOwnersOfParent'],
+      accountNames: [
+        '지배기업의소유주에게귀속되는당기순이익',
+        '지배기업의소유주에게귀속되는당기순이익(손실)',
+        '지배기업소유주지분',
+        '지배기업의소유주지분'
+      ]
+    }
+  },
+  totalAssets: {
+    divisions: BALANCE_DIVISIONS,
+    general: { accountIds: ['ifrs-full_Assets', 'ifrs_Assets'], accountNames: ['자산총계'] }
+  },
+  totalLiabilities: {
+    divisions: BALANCE_DIVISIONS,
+    general: { accountIds: ['ifrs-full_Liabilities', 'ifrs_Liabilities'], accountNames: ['부채총계'] }
+  },
+  totalEquity: {
+    divisions: BALANCE_DIVISIONS,
+    general: { accountIds: ['ifrs-full_Equity', 'ifrs_Equity'], accountNames: ['자본총계'] }
+  },
+  equityControlling: {
+    divisions: BALANCE_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_EquityAttributableToOwnersOfParent'],
+      accountNames: ['지배기업소유주지분', '지배기업의소유주지분', '지배기업의소유주에게귀속되는자본']
+    }
+  },
+  currentAssets: {
+    divisions: BALANCE_DIVISIONS,
+    general: { accountIds: ['ifrs-full_CurrentAssets', 'ifrs_CurrentAssets'], accountNames: ['유동자산'] }
+  },
+  currentLiabilities: {
+    divisions: BALANCE_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_CurrentLiabilities', 'ifrs_CurrentLiabilities'],
+      accountNames: ['유동부채']
+    }
+  },
+  eps: {
+    divisions: INCOME_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_BasicEarningsLossPerShare', 'ifrs_BasicEarningsLossPerShare'],
+      accountNames: [
+        '기본주당이익', '기본주당이익(손실)', '보통주기본주당이익', '보통주기본주당이익(손실)',
+        '기본주당순이익', '기본주당순이익(손실)'
+      ]
+    }
+  },
+  operatingCashFlow: {
+    divisions: CASH_FLOW_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_CashFlowsFromUsedInOperatingActivities', 'ifrs_CashFlowsFromUsedInOperatingActivities'],
+      accountNames: [
+        '영업활동현금흐름', '영업활동으로인한현금흐름', '영업활동순현금흐름',
+        '영업활동으로인한순현금흐름', '영업활동현금흐름합계'
+      ]
+    }
+  },
+  purchaseOfPPE: {
+    divisions: CASH_FLOW_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities'],
+      accountNames: ['유형자산의취득', '유형자산취득']
+    }
+  },
+  purchaseOfIntangibles: {
+    divisions: CASH_FLOW_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_PurchaseOfIntangibleAssetsClassifiedAsInvestingActivities'],
+      accountNames: ['무형자산의취득', '무형자산취득']
+    }
+  },
+  researchAndDevelopment: {
+    divisions: NOTE_DIVISIONS,
+    general: {
+      accountIds: ['ifrs-full_ResearchAndDevelopmentExpense', 'dart_ResearchAndDevelopmentExpense'],
+      accountNames: ['연구개발비', '경상연구개발비', '연구개발비용', '연구와개발비']
+    }
+  },
+  depreciation: {
+    divisions: NOTE_DIVISIONS,
+    general: {
+      accountIds: [
+        'ifrs-full_DepreciationExpense',
+        'ifrs-full_AdjustmentsForDepreciationExpense',
+        'ifrs-full_DepreciationPropertyPlantAndEquipment'
+      ],
+      accountNames: ['감가상각비', '유형자산감가상각비']
+    }
+  }
+};
+
+/**
+ * Map a KSIC industry code (DART induty_code) to a mapping profile
+ * - 641xx 은행 및 저축기관 → bank
+ * - 65xxx 보험 및 연금업 → insurance
+ * - 6612x 증권 및 선물 중개업 → securities
+ * - 64992 지주회사 → holding
+ */
+export function resolveIndustryProfile(industryCode?: string): IndustryProfile {
+  if (!industryCode) return 'general';
+  const code = industryCode.trim();
+
+  if (code.startsWith('641')) return 'bank';
+  if (code.startsWith('65')) return 'insurance';
+  if (code.startsWith('6612')) return 'securities';
+  if (code.startsWith('64992')) return 'holding';
+  return 'general';
+}
+
+const normalizeName = (name: string | undefined): string =>
+  (name || '').replace(/\s/g, '');
+
+/**
+ * Find the row for a metric, reporting which rule matched
+ *
+ * 매칭 우선순위:
+ * 1. 해당 업종 규칙의 account_id → 일반 규칙의 account_id
+ * 2. 해당 업종 규칙의 account_nm → 일반 규칙의 account_nm
+ * 업종이 general이면 일반 규칙 이후 모든 업종 폴백을 순서대로 시도
+ */
+export function findAccount(
+  items: DARTAccountItem[],
+  metric: AccountMetric,
+  industry: IndustryProfile = 'general'
+): { item: DARTAccountItem; match: AccountMatch } | null {
+  const rules = ACCOUNT_RULES[metric];
+  const candidates = items.filter(item =>
+    !item.sj_div || rules.divisions.includes(item.sj_div as StatementDivision)
+  );
+
+  const ruleOrder: { industry: IndustryProfile; rule: AccountRule }[] = [];
+  if (industry !== 'general' && rules.fallbacks?.[industry]) {
+    ruleOrder.push({ industry, rule: rules.fallbacks[industry]! });
+  }
+  ruleOrder.push({ industry: 'general', rule: rules.general });
+  if (industry === 'general' && rules.fallbacks) {
+    for (const fallback of FALLBACK_ORDER) {
+      const rule = rules.fallbacks[fallback];
+      if (rule) ruleOrder.push({ industry: fallback, rule });
+    }
+  }
+
+  // 1단계: account_id 매칭
+  for (const { industry: ruleIndustry, rule } of ruleOrder) {
+    for (const accountId of rule.accountIds) {
+      const item = candidates.find(c => c.account_id === accountId);
+      if (item) {
+        return {
+          item,
+          match: { industry: ruleIndustry, matchedBy: 'account_id', key: accountId, accountName: item.account_nm }
+        };
+      }
+    }
+  }
+
+  // 2단계: account_nm 매칭 (표준계정코드 미사용 또는 요약재무정보)
+  for (const { industry: ruleIndustry, rule } of ruleOrder) {
+    for (const accountName of rule.accountNames) {
+      const item = candidates.find(c => normalizeName(c.account_nm) === accountName);
+      if (item) {
+        return {
+          item,
+          match: { industry: ruleIndustry, matchedBy: 'account_nm', key: accountName, accountName: item.account_nm }
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve several metrics at once
+ */
+export function mapAccounts<M extends AccountMetric>(
+  items: DARTAccountItem[],
+  metrics: M[],
+  industry: IndustryProfile = 'general'
+): { items: Record<M, DARTAccountItem | undefined>; report: AccountMappingReport } {
+  const resolved = {} as Record<M, DARTAccountItem | undefined>;
+  const report: AccountMappingReport = {};
+
+  for (const metric of metrics) {
+    const found = findAccount(items, metric, industry);
+    resolved[metric] = found?.item;
+    report[metric] = found?.match ?? null;
+  }
+
+  return { items: resolved, report };
+}
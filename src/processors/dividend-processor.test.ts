@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { DARTDividendItem } from './dividend-processor';
+import { parseDividendRows, mergeDividendHistory } from './dividend-processor';
+
+const row = (se: string, thstrm: string, frmtrm: string, lwfr: string, stock_knd?: string): DARTDividendItem => ({
+  rcept_no: '20250311001085',
+  se,
+  stock_knd,
+  thstrm,
+  frmtrm,
+  lwfr
+});
+
+const ROWS: DARTDividendItem[] = [
+  row('주당액면가액(원)', '100', '100', '100'),
+  row('(연결)당기순이익(백만원)', '33,621,363', '14,473,401', '54,730,018'),
+  row('(별도)당기순이익(백만원)', '23,582,565', '25,397,099', '25,418,778'),
+  row('(연결)주당순이익(원)', '4,950', '2,131', '8,057'),
+  row('현금배당금총액(백만원)', '9,811,318', '9,809,438', '9,809,438'),
+  row('(연결)현금배당성향(%)', '29.2', '67.8', '17.9'),
+  row('현금배당수익률(%)', '2.7', '1.9', '2.5', '보통주'),
+  row('현금배당수익률(%)', '3.3', '2.4', '3.0', '우선주'),
+  row('주당 현금배당금(원)', '1,446', '1,444', '1,444', '보통주'),
+  row('주당 현금배당금(원)', '1,447', '1,445', '1,445', '우선주'),
+  row('주당 주식배당(주)', '-', '-', '-', '보통주'),
+  row('주당 주식배당(주)', '-', '-', '-', '우선주')
+];
+
+describe('parseDividendRows', () => {
+  const years = parseDividendRows(ROWS, '2024');
+
+  it('returns the current and two prior years from one report', () => {
+    expect(years.map(year => year.year)).toEqual(['2024', '2023', '2022']);
+    expect(years.every(year => year.rceptNo === '20250311001085')).toBe(true);
+  });
+
+  it('prefers consolidated figures and converts millions of won', () => {
+    expect(years[0]).toMatchObject({
+      payoutRatio: 29.2,
+      netIncome: 33_621_363 * 1_000_000,
+      totalCashDividends: 9_811_318 * 1_000_000,
+      eps: 4950
+    });
+  });
+
+  it('falls back to separate figures without consolidated rows', () => {
+    const separateOnly = ROWS.filter(r => !r.se.startsWith('(연결)'));
+    expect(parseDividendRows(separateOnly, '2024')[1].netIncome).toBe(25_397_099 * 1_000_000);
+  });
+
+  it('splits per-share figures by share class', () => {
+    expect(years[1].shareClasses).toEqual([
+      { shareClass: '보통주', dividendPerShare: 1444, dividendYield: 1.9, stockDividendPerShare: null },
+      { shareClass: '우선주', dividendPerShare: 1445, dividendYield: 2.4, stockDividendPerShare: null }
+    ]);
+  });
+
+  it('treats dashes and blanks as missing values', () => {
+    const [year] = parseDividendRows([row('(연결)현금배당성향(%)', '-', '', ' ')], '2024');
+    expect(year).toMatchObject({ payoutRatio: null, totalCashDividends: null, shareClasses: [] });
+  });
+});
+
+describe('mergeDividendHistory', () => {
+  it('prefers the most recent report for overlapping years, newest year first', () => {
+    const latest = parseDividendRows(ROWS, '2024');
+    const older = parseDividendRows(ROWS.map(r => ({ ...r, rcept_no: '20230307000542' })), '2022');
+
+    const merged = mergeDividendHistory([latest, older]);
+    expect(merged.map(year => year.year)).toEqual(['2024', '2023', '2022', '2021', '2020']);
+    expect(merged.find(year => year.year === '2022')?.rceptNo).toBe('20250311001085');
+    expect(merged.find(year => year.year === '2021')?.rceptNo).toBe('20230307000542');
+  });
+});
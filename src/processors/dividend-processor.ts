@@ -0,0 +1,117 @@
+/**
+ * Dividend Processor
+ *
+ * Transform DART 배당에 관한 사항(alotMatter) rows into per-year dividend history.
+ * 사업보고서 1건에 당기/전기/전전기 3개년 데이터가 포함됨.
+ */
+
+import type { DividendByShareClass, DividendYear } from '../types';
+
+export interface DARTDividendItem {
+  rcept_no?: string;
+  se: string;           // 구분 (e.g., "주당 현금배당금(원)")
+  stock_knd?: string;   // 주식 종류 (보통주, 우선주)
+  thstrm?: string;      // 당기
+  frmtrm?: string;      // 전기
+  lwfr?: string;        // 전전기
+}
+
+const MILLION = 1_000_000;
+
+const normalizeLabel = (label: string): string => label.replace(/\s/g, '');
+
+/**
+ * Parse dividend values ("1,444", "25.1", "-")
+ */
+function parseDividendValue(value: string | undefined): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/,/g, '').trim();
+  if (cleaned === '' || cleaned === '-') return null;
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * 연결 값이 있으면 연결, 없으면 별도 값 사용
+ */
+function findConsolidatedFirst(
+  rows: DARTDividendItem[],
+  label: string
+): DARTDividendItem | undefined {
+  return rows.find(r => normalizeLabel(r.se) === `(연결)${label}`)
+    || rows.find(r => normalizeLabel(r.se) === `(별도)${label}`)
+    || rows.find(r => normalizeLabel(r.se) === label);
+}
+
+/**
+ * Convert one annual report's rows into three years of dividend data
+ */
+export function parseDividendRows(rows: DARTDividendItem[], reportYear: string): DividendYear[] {
+  const baseYear = parseInt(reportYear, 10);
+  const columns: { key: 'thstrm' | 'frmtrm' | 'lwfr'; year: number }[] = [
+    { key: 'thstrm', year: baseYear },
+    { key: 'frmtrm', year: baseYear - 1 },
+    { key: 'lwfr', year: baseYear - 2 }
+  ];
+
+  const payoutRow = findConsolidatedFirst(rows, '현금배당성향(%)');
+  const netIncomeRow = findConsolidatedFirst(rows, '당기순이익(백만원)');
+  const epsRow = findConsolidatedFirst(rows, '주당순이익(원)');
+  const totalCashRow = rows.find(r => normalizeLabel(r.se) === '현금배당금총액(백만원)');
+
+  // 주식 종류별 행 (보통주, 우선주)
+  const shareClassNames = Array.from(new Set(
+    rows
+      .map(r => (r.stock_knd || '').trim())
+      .filter(kind => kind !== '' && kind !== '-')
+  ));
+
+  const rceptNo = rows[0]?.rcept_no || null;
+
+  return columns.map(({ key, year }) => {
+    const toWon = (row: DARTDividendItem | undefined) => {
+      const value = parseDividendValue(row?.[key]);
+      return value === null ? null : value * MILLION;
+    };
+
+    const shareClasses: DividendByShareClass[] = shareClassNames.map(shareClass => {
+      const rowFor = (label: string) => rows.find(r =>
+        normalizeLabel(r.se) === label && (r.stock_knd || '').trim() === shareClass
+      );
+      return {
+        shareClass,
+        dividendPerShare: parseDividendValue(rowFor('주당현금배당금(원)')?.[key]),
+        dividendYield: parseDividendValue(rowFor('현금배당수익률(%)')?.[key]),
+        stockDividendPerShare: parseDividendValue(rowFor('주당주식배당(주)')?.[key])
+      };
+    });
+
+    return {
+      year: String(year),
+      payoutRatio: parseDividendValue(payoutRow?.[key]),
+      totalCashDividends: toWon(totalCashRow),
+      netIncome: toWon(netIncomeRow),
+      eps: parseDividendValue(epsRow?.[key]),
+      shareClasses,
+      rceptNo
+    };
+  });
+}
+
+/**
+ * Merge per-report histories, preferring the most recent report for overlapping years
+ * histories는 최신 사업보고서 순으로 전달 (최신 보고서의 전기/전전기 값이 정정 반영된 값)
+ */
+export function mergeDividendHistory(histories: DividendYear[][]): DividendYear[] {
+  const byYear = new Map<string, DividendYear>();
+
+  for (const history of histories) {
+    for (const entry of history) {
+      if (!byYear.has(entry.year)) {
+        byYear.set(entry.year, entry);
+      }
+    }
+  }
+
+  return Array.from(byYear.values()).sort((a, b) => b.year.localeCompare(a.year));
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { decodeDocument, parseDisclosureDocument } from './document-parser';
+
+const DOCUMENT = `<?xml version="1.0" encoding="utf-8"?>
+<DOCUMENT>
+<DOCUMENT-NAME ACODE="11011">사업보고서</DOCUMENT-NAME>
+<COMPANY-NAME AREGCIK="00126380">삼성전자 주식회사</COMPANY-NAME>
+<BODY>
+<P>표지 문단</P>
+<SECTION-1>
+<TITLE ATOC="Y">I. 회사의 개요</TITLE>
+<P>첫 문단<BR/>둘째 줄</P>
+<SECTION-2>
+<TITLE>1. 회사의 개요</TITLE>
+<P>당사는 &amp; 전자 &#8361;100 &#x20A9;200</P>
+<TABLE>
+<TR><TH>구분</TH><TH>금액</TH></TR>
+<TR><TD>매출</TD><TD>1,000</TD></TR>
+<TR><TD></TD><TD></TD></TR>
+</TABLE>
+</SECTION-2>
+</SECTION-1>
+<SECTION-1>
+<TITLE>II. 사업의 내용</TITLE>
+<P>사업 설명</P>
+</SECTION-1>
+</BODY>
+</DOCUMENT>`;
+
+describe('parseDisclosureDocument', () => {
+  const parsed = parseDisclosureDocument('00126380_00760.xml', DOCUMENT);
+
+  it('reads the document and company names', () => {
+    expect(parsed.fileName).toBe('00126380_00760.xml');
+    expect(parsed.title).toBe('사업보고서');
+    expect(parsed.companyName).toBe('삼성전자 주식회사');
+  });
+
+  it('puts content outside sections into a cover section', () => {
+    expect(parsed.sections[0]).toMatchObject({ level: 0, title: '사업보고서', paragraphs: ['표지 문단'] });
+  });
+
+  it('nests sections by level and keeps line breaks', () => {
+    const [, overview, business] = parsed.sections;
+    expect(overview.title).toBe('I. 회사의 개요');
+    expect(overview.paragraphs).toEqual(['첫 문단\n둘째 줄']);
+    expect(overview.children.map(section => section.title)).toEqual(['1. 회사의 개요']);
+    expect(business).toMatchObject({ level: 1, title: 'II. 사업의 내용', paragraphs: ['사업 설명'] });
+  });
+
+  it('extracts tables and drops empty rows', () => {
+    const section = parsed.sections[1].children[0];
+    expect(section.tables).toEqual([{ rows: [['구분', '금액'], ['매출', '1,000']] }]);
+  });
+
+  it('decodes named and numeric entities', () => {
+    expect(parsed.sections[1].children[0].paragraphs).toEqual(['당사는 & 전자 ₩100 ₩200']);
+  });
+
+  it('keeps numeric entities outside the Unicode range as raw text', () => {
+    const file = parseDisclosureDocument('a.xml', '<P>값 &#x110000; &#99999999; &#x1F600;</P>');
+    expect(file.sections[0].paragraphs).toEqual(['값 &#x110000; &#99999999; 😀']);
+  });
+
+  it('tolerates unclosed tags and skips styles and images', () => {
+    const file = parseDisclosureDocument('a.xml', [
+      '<SECTION-1><TITLE>제목</TITLE>',
+      '<STYLE>p { color: red }</STYLE><IMAGE><IMG>a.jpg</IMG></IMAGE>',
+      '<TABLE><TR><TD>셀<TABLE><TR><TD>중첩</TD></TR></TABLE></TD><TD>끝'
+    ].join(''));
+    const [section] = file.sections;
+    expect(section.title).toBe('제목');
+    expect(section.paragraphs).toEqual([]);
+    expect(section.tables).toEqual([{ rows: [['셀 중첩', '끝']] }]);
+  });
+});
+
+describe('decodeDocument', () => {
+  it('decodes UTF-8 documents', () => {
+    const bytes = new TextEncoder().encode('<?xml version="1.0" encoding="utf-8"?><P>한글</P>');
+    expect(decodeDocument(bytes)).toContain('한글');
+  });
+
+  it('uses the encoding declared in the XML header', () => {
+    const header = new TextEncoder().encode('<?xml version="1.0" encoding="EUC-KR"?><P>');
+    const bytes = new Uint8Array([...header, 0xc7, 0xd1, 0xb1, 0xdb]);
+    expect(decodeDocument(bytes)).toContain('<P>한글');
+  });
+});
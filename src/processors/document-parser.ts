@@ -0,0 +1,247 @@
+/**
+ * Document Parser
+ *
+ * Extract sections, paragraphs and tables from DART 공시서류원본(document.xml)
+ * files. 원본 XML(dart4.xsd)은 태그가 닫히지 않거나 이스케이프되지 않은 문자가
+ * 섞여 있는 경우가 많아 XML 파서 대신 관대한 토크나이저로 처리.
+ */
+
+import type { DisclosureDocumentFile, DocumentSection, DocumentTable } from '../types';
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z][\w\-.:]*)([^>]*)>|([^<]+)/g;
+
+const CELL_TAGS = new Set(['TD', 'TH', 'TE', 'TU']);
+const SKIP_TAGS = new Set(['STYLE', 'SCRIPT', 'IMAGE', 'IMG']);
+const SECTION_PATTERN = /^SECTION-(\d+)$/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  middot: '·'
+};
+
+/**
+ * Decode XML/HTML entities (&amp;, &nbsp;, &#8361;, &#x20A9;)
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      // 유니코드 범위를 벗어난 코드는 원문 유지 (fromCodePoint는 RangeError)
+      return isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Collapse whitespace while keeping explicit line breaks (<BR/>)
+ */
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line !== '')
+    .join('\n');
+}
+
+/**
+ * Decode document bytes using the encoding declared in the XML header
+ * 구형 공시는 EUC-KR 인코딩, 런타임이 지원하지 않으면 UTF-8로 처리
+ */
+export function decodeDocument(bytes: Uint8Array): string {
+  const header = new TextDecoder('ascii').decode(bytes.subarray(0, 200));
+  const encoding = header.match(/encoding=["']([\w\-]+)["']/i)?.[1]?.toLowerCase();
+
+  if (encoding && encoding !== 'utf-8' && encoding !== 'utf8') {
+    try {
+      return new TextDecoder(encoding).decode(bytes);
+    } catch {
+      // 지원하지 않는 인코딩
+    }
+  }
+
+  return new TextDecoder().decode(bytes);
+}
+
+function createSection(level: number, title: string = ''): DocumentSection {
+  return { level, title, paragraphs: [], tables: [], children: [] };
+}
+
+/**
+ * Parse a single document XML into nested sections
+ */
+export function parseDisclosureDocument(fileName: string, xml: string): DisclosureDocumentFile {
+  const root = createSection(0);
+  const sectionStack: DocumentSection[] = [root];
+  const tableStack: { table: DocumentTable; row: string[] | null; cell: string | null }[] = [];
+
+  let title: string | null = null;
+  let companyName: string | null = null;
+  let capture: 'DOCUMENT-NAME' | 'COMPANY-NAME' | 'TITLE' | null = null;
+  let captured = '';
+  let paragraph = '';
+  let skipDepth = 0;
+
+  const currentSection = () => sectionStack[sectionStack.length - 1];
+  const currentTable = () => tableStack[tableStack.length - 1];
+
+  const flushParagraph = () => {
+    const text = cleanText(paragraph);
+    if (text) currentSection().paragraphs.push(text);
+    paragraph = '';
+  };
+
+  const appendText = (text: string) => {
+    if (capture) {
+      captured += text;
+      return;
+    }
+    const table = currentTable();
+    if (table) {
+      if (table.cell !== null) table.cell += text;
+      return;
+    }
+    paragraph += text;
+  };
+
+  const closeCell = () => {
+    const table = currentTable();
+    if (table && table.cell !== null) {
+      if (!table.row) table.row = [];
+      table.row.push(cleanText(table.cell).replace(/\n/g, ' '));
+      table.cell = null;
+    }
+  };
+
+  const closeRow = () => {
+    closeCell();
+    const table = currentTable();
+    if (table?.row) {
+      if (table.row.some(cell => cell !== '')) table.table.rows.push(table.row);
+      table.row = null;
+    }
+  };
+
+  const popSections = (level: number) => {
+    while (sectionStack.length > 1 && currentSection().level >= level) {
+      sectionStack.pop();
+    }
+  };
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN_PATTERN.exec(xml)) !== null) {
+    const [, cdata, closing, rawTag, attributes, text] = match;
+
+    if (text !== undefined || cdata !== undefined) {
+      if (skipDepth === 0) appendText(decodeEntities(text ?? cdata));
+      continue;
+    }
+    if (!rawTag) continue;
+
+    const tag = rawTag.toUpperCase();
+    const selfClosing = attributes.trim().endsWith('/');
+
+    if (SKIP_TAGS.has(tag)) {
+      if (!selfClosing) skipDepth += closing ? -1 : 1;
+      if (skipDepth < 0) skipDepth = 0;
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    const sectionMatch = tag.match(SECTION_PATTERN);
+
+    if (!closing) {
+      if (tag === 'BR') {
+        appendText('\n');
+      } else if (sectionMatch) {
+        flushParagraph();
+        const level = parseInt(sectionMatch[1], 10);
+        popSections(level);
+        const section = createSection(level);
+        currentSection().children.push(section);
+        sectionStack.push(section);
+      } else if (tag === 'DOCUMENT-NAME' || tag === 'COMPANY-NAME' || tag === 'TITLE') {
+        if (!tableStack.length) {
+          flushParagraph();
+          capture = tag;
+          captured = '';
+        }
+      } else if (tag === 'TABLE') {
+        flushParagraph();
+        tableStack.push({ table: { rows: [] }, row: null, cell: null });
+      } else if (tag === 'TR' && tableStack.length) {
+        closeRow();
+        currentTable().row = [];
+      } else if (CELL_TAGS.has(tag) && tableStack.length) {
+        closeCell();
+        currentTable().cell = '';
+      } else if (tag === 'P' && !tableStack.length) {
+        flushParagraph();
+      }
+      continue;
+    }
+
+    // 닫는 태그
+    if (sectionMatch) {
+      flushParagraph();
+      popSections(parseInt(sectionMatch[1], 10));
+    } else if (capture === tag) {
+      const value = cleanText(captured).replace(/\n/g, ' ');
+      if (tag === 'DOCUMENT-NAME') title = title ?? value;
+      else if (tag === 'COMPANY-NAME') companyName = companyName ?? value;
+      else if (value) {
+        // 섹션 제목이 비어 있으면 제목, 이미 있으면 하위 소제목으로 문단 처리
+        const section = currentSection();
+        if (section.level > 0 && !section.title) section.title = value;
+        else section.paragraphs.push(value);
+      }
+      capture = null;
+      captured = '';
+    } else if (tag === 'TABLE' && tableStack.length) {
+      closeRow();
+      const { table } = tableStack.pop()!;
+      if (table.rows.length > 0) {
+        const parent = currentTable();
+        if (parent) {
+          // 중첩 표는 셀 텍스트로 평탄화
+          if (parent.cell !== null) parent.cell += ' ' + table.rows.map(row => row.join(' ')).join(' ');
+        } else {
+          currentSection().tables.push(table);
+        }
+      }
+    } else if (tag === 'TR' && tableStack.length) {
+      closeRow();
+    } else if (CELL_TAGS.has(tag) && tableStack.length) {
+      closeCell();
+    } else if (tag === 'P' && !tableStack.length) {
+      flushParagraph();
+    }
+  }
+
+  // 닫히지 않은 표/문단 정리
+  while (tableStack.length) {
+    closeRow();
+    const { table } = tableStack.pop()!;
+    if (table.rows.length > 0 && !tableStack.length) currentSection().tables.push(table);
+  }
+  flushParagraph();
+
+  const hasCover = root.paragraphs.length > 0 || root.tables.length > 0;
+  const cover = hasCover ? [{ ...root, title: title || '표지', children: [] }] : [];
+
+  return {
+    fileName,
+    title,
+    companyName,
+    sections: [...cover, ...root.children]
+  };
+}
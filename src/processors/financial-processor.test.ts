@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import type { FinancialStatement, ProcessedFinancialData } from '../types';
+import {
+  createQuarterPeriod,
+  getQuarterWindow,
+  isQuarterReportDue,
+  getFilingDeadline,
+  processFinancialData,
+  calculateQoQChanges,
+  percentChange,
+  YOY_TTM_LOOKBACK_QUARTERS,
+  CAGR_LOOKBACK_QUARTERS
+} from './financial-processor';
+
+function statement(
+  year: string,
+  quarter: FinancialStatement['quarter'],
+  revenue: number,
+  overrides: Partial<FinancialStatement> = {}
+): FinancialStatement {
+  return {
+    year,
+    quarter,
+    revenue,
+    operatingProfit: revenue / 10,
+    netIncome: revenue / 20,
+    operatingCashFlow: revenue / 5,
+    capex: revenue / 10,
+    freeCashFlow: revenue / 10,
+    fsDiv: 'CFS',
+    ...overrides
+  };
+}
+
+// 분기 단독 매출 [100, 150, 200, 250]의 누적 보고서
+const cumulativeYear = (year: string, overrides: Partial<FinancialStatement> = {}) => [
+  statement(year, 'Q1', 100, overrides),
+  statement(year, 'Q2', 250, overrides),
+  statement(year, 'Q3', 450, overrides),
+  statement(year, 'Q4', 700, overrides)
+];
+
+describe('createQuarterPeriod', () => {
+  it('uses calendar quarters for December fiscal years', () => {
+    expect(createQuarterPeriod(2024, 4)).toEqual({
+      year: '2024',
+      quarter: 'Q4',
+      startDate: '2024-10-01',
+      endDate: '2024-12-31',
+      fiscalYearEndMonth: 12,
+      label: '2024-Q4'
+    });
+  });
+
+  it('shifts quarters and prefixes labels for non-December fiscal years', () => {
+    const q1 = createQuarterPeriod(2024, 1, 3);
+    expect([q1.startDate, q1.endDate, q1.label]).toEqual(['2024-04-01', '2024-06-30', 'FY2024-Q1']);
+
+    const q4 = createQuarterPeriod(2024, 4, 3);
+    expect([q4.startDate, q4.endDate, q4.label]).toEqual(['2025-01-01', '2025-03-31', 'FY2024-Q4']);
+
+    const june = createQuarterPeriod(2024, 2, 6);
+    expect([june.startDate, june.endDate]).toEqual(['2024-10-01', '2024-12-31']);
+  });
+});
+
+describe('report timing', () => {
+  it('treats reports as due about one/two months after the quarter ends', () => {
+    expect(isQuarterReportDue(createQuarterPeriod(2025, 1), new Date('2025-04-29T00:00:00Z'))).toBe(false);
+    expect(isQuarterReportDue(createQuarterPeriod(2025, 1), new Date('2025-04-30T00:00:00Z'))).toBe(true);
+    expect(isQuarterReportDue(createQuarterPeriod(2024, 4), new Date('2025-02-15T00:00:00Z'))).toBe(false);
+    expect(isQuarterReportDue(createQuarterPeriod(2024, 4), new Date('2025-03-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('computes statutory filing deadlines', () => {
+    expect(getFilingDeadline(createQuarterPeriod(2025, 1))).toBe('2025-05-15');
+    expect(getFilingDeadline(createQuarterPeriod(2024, 4))).toBe('2025-03-31');
+    expect(getFilingDeadline(createQuarterPeriod(2024, 4, 3))).toBe('2025-06-29');
+  });
+});
+
+describe('getQuarterWindow', () => {
+  const now = new Date('2025-06-15T00:00:00Z');
+  const labels = (count: number, lookback: number, month = 12) =>
+    getQuarterWindow(count, lookback, month, now).map(p => p.label);
+
+  it('fetches whole fiscal years back to the YoY/TTM lookback', () => {
+    expect(labels(1, YOY_TTM_LOOKBACK_QUARTERS)).toEqual([
+      '2024-Q1', '2024-Q2', '2024-Q3', '2024-Q4', '2025-Q1'
+    ]);
+  });
+
+  it('extends the window for the CAGR lookback', () => {
+    const periods = labels(1, CAGR_LOOKBACK_QUARTERS);
+    expect(periods[0]).toBe('2019-Q1');
+    expect(periods[periods.length - 1]).toBe('2025-Q1');
+    expect(periods).toHaveLength(25);
+  });
+
+  it('never goes back before the first year DART provides', () => {
+    expect(labels(60, CAGR_LOOKBACK_QUARTERS)[0]).toBe('2015-Q1');
+  });
+
+  it('only includes quarters that have ended for non-December fiscal years', () => {
+    const periods = labels(1, YOY_TTM_LOOKBACK_QUARTERS, 3);
+    expect(periods[periods.length - 1]).toBe('FY2024-Q4');
+  });
+});
+
+describe('processFinancialData', () => {
+  it('de-cumulates half-year, Q3 and annual reports into standalone quarters', () => {
+    const result = processFinancialData(cumulativeYear('2024'));
+    expect(result.quarters.map(q => q.label)).toEqual(['2024-Q1', '2024-Q2', '2024-Q3', '2024-Q4']);
+    expect(result.revenue).toEqual([100, 150, 200, 250]);
+    expect(result.operatingCashFlow).toEqual([20, 30, 40, 50]);
+    expect(result.freeCashFlow).toEqual([10, 15, 20, 25]);
+  });
+
+  it('skips Q4 when the Q3 cumulative report is missing', () => {
+    const [q1, q2, , q4] = cumulativeYear('2024');
+    const result = processFinancialData([q4, q2, q1]);
+    expect(result.quarters.map(q => q.quarter)).toEqual(['Q1', 'Q2']);
+  });
+
+  it('labels quarters by fiscal year for non-December fiscal years', () => {
+    const result = processFinancialData(cumulativeYear('2024'), 'auto', 3);
+    expect(result.quarters.map(q => q.label)).toEqual(['FY2024-Q1', 'FY2024-Q2', 'FY2024-Q3', 'FY2024-Q4']);
+    expect(result.quarters[3].endDate).toBe('2025-03-31');
+  });
+
+  it('uses the requested basis and falls back per year in auto mode', () => {
+    const statements = [
+      ...cumulativeYear('2023', { fsDiv: 'OFS' }),
+      ...cumulativeYear('2024', { fsDiv: 'CFS' }),
+      statement('2024', 'Q1', 999, { fsDiv: 'OFS' })
+    ];
+
+    const auto = processFinancialData(statements, 'auto');
+    expect(auto.fs).toBe('CFS');
+    expect(auto.revenue).toEqual([100, 150, 200, 250, 100, 150, 200, 250]);
+
+    const ofs = processFinancialData(statements, 'OFS');
+    expect(ofs.fs).toBe('OFS');
+    expect(ofs.quarters.map(q => q.label)).toEqual(['2023-Q1', '2023-Q2', '2023-Q3', '2023-Q4', '2024-Q1']);
+  });
+
+  it('applies restated prior-year figures from later reports', () => {
+    const statements = [
+      ...cumulativeYear('2023', { rceptNo: '20230515000001' }),
+      statement('2024', 'Q1', 120, { rceptNo: '20240515000001', priorPeriod: { revenue: 90 } })
+    ];
+
+    const result = processFinancialData(statements);
+    expect(result.revenue[0]).toBe(90);
+    expect(result.restatements).toEqual([{
+      year: '2023',
+      quarter: 'Q1',
+      label: '2023-Q1',
+      rceptNo: '20240515000001',
+      changes: { revenue: { original: 100, restated: 90, difference: -10 } }
+    }]);
+    // Q2는 직전 누적(Q1)만 재작성되어 원래 값 유지
+    expect(result.revenue[1]).toBe(150);
+  });
+
+  it('does not report a basis change between years as a restatement', () => {
+    const statements = [
+      ...cumulativeYear('2023', { fsDiv: 'OFS', rceptNo: '20230515000001' }),
+      statement('2024', 'Q1', 120, { fsDiv: 'CFS', rceptNo: '20240515000001', priorPeriod: { revenue: 90 } })
+    ];
+
+    const result = processFinancialData(statements, 'auto');
+    expect(result.revenue[0]).toBe(100);
+    expect(result.restatements).toEqual([]);
+  });
+});
+
+describe('calculateQoQChanges', () => {
+  // 연도별 분기 매출이 매년 10%씩 증가 (2019~2024)
+  const yearly = [100, 110, 121, 133.1, 146.41, 161.051];
+
+  function processed(skip: string[] = []): ProcessedFinancialData {
+    const quarters = yearly
+      .flatMap((_, i) => ([1, 2, 3, 4] as const).map(q => createQuarterPeriod(2019 + i, q)))
+      .filter(q => !skip.includes(q.label));
+    const revenue = quarters.map(q => yearly[parseInt(q.year) - 2019]);
+    return {
+      fs: 'CFS',
+      quarters,
+      revenue,
+      operatingProfit: revenue,
+      netIncome: revenue,
+      operatingCashFlow: revenue,
+      capex: revenue,
+      freeCashFlow: revenue,
+      restatements: []
+    };
+  }
+
+  it('calculates QoQ, YoY, TTM and CAGR from consecutive quarters', () => {
+    const { revenue } = calculateQoQChanges(processed());
+    const first = revenue[0];
+    expect([first.qoqChange, first.yoyChange, first.ttm, first.cagr3y]).toEqual([null, null, null, null]);
+
+    const q1_2024 = revenue[20];
+    expect(q1_2024.qoqChange).toBe(10);
+    expect(q1_2024.yoyChange).toBe(10);
+
+    const latest = revenue[revenue.length - 1];
+    expect(latest.qoqChange).toBe(0);
+    expect(latest.ttm).toBeCloseTo(161.051 * 4);
+    expect(latest.cagr3y).toBe(10);
+    expect(latest.cagr5y).toBe(10);
+    expect(revenue[revenue.length - 5].cagr5y).toBeNull();
+  });
+
+  it('matches YoY/TTM by quarter instead of position when a quarter is missing', () => {
+    const data = processed(['2023-Q2']);
+    const { revenue } = calculateQoQChanges(data);
+    const byLabel = new Map(data.quarters.map((q, i) => [q.label, revenue[i]]));
+
+    expect(byLabel.get('2024-Q2')?.yoyChange).toBeNull();
+    expect(byLabel.get('2024-Q1')?.ttm).toBeNull();
+    expect(byLabel.get('2024-Q2')?.ttm).toBeCloseTo(161.051 * 2 + 146.41 * 2);
+    expect(byLabel.get('2024-Q3')?.yoyChange).toBe(10);
+  });
+});
+
+describe('percentChange', () => {
+  it('returns null for a zero or missing base and uses the absolute base', () => {
+    expect(percentChange(10, 0)).toBeNull();
+    expect(percentChange(10, null)).toBeNull();
+    expect(percentChange(-50, -100)).toBe(50);
+    expect(percentChange(1, 3)).toBe(-66.67);
+  });
+});
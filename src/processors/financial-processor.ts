@@ -9,78 +9,158 @@ import type {
   FinancialStatement,
   ProcessedFinancialData,
   QoQChangeData,
-  MetricWithChange
+  MetricWithChange,
+  FinancialStatementBasis,
+  FinancialStatementMode,
+  FlowMetric,
+  QuarterRestatement
 } from '../types';
 
 type Quarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
 
+const QUARTER_NUMBERS: Record<Quarter, 1|2|3|4> = { Q1: 1, Q2: 2, Q3: 3, Q4: 4 };
+
+// 보고서가 조회되기 시작하는 시점: 분/반기 종료 후 약 1개월, 사업연도 종료 후 약 2개월
+// (법정 제출기한은 45일/90일이지만 대부분 그 전에 제출)
+const QUARTERLY_REPORT_LAG_DAYS = 30;
+const ANNUAL_REPORT_LAG_DAYS = 60;
+
+// 법정 제출기한: 분/반기보고서 45일, 사업보고서 90일
+const QUARTERLY_FILING_DEADLINE_DAYS = 45;
+const ANNUAL_FILING_DEADLINE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YoY(4분기 전)와 TTM(직전 3분기)에 필요한 이전 분기 수
+export const YOY_TTM_LOOKBACK_QUARTERS = 4;
+
+// 5년 CAGR(20분기 전 TTM = 20~23분기 전 단독값)에 필요한 이전 분기 수
+export const CAGR_LOOKBACK_QUARTERS = 23;
+
+// DART 재무제표 API(fnlttSinglAcntAll)는 2015 사업연도부터 제공
+const FIRST_FINANCIAL_YEAR = 2015;
+
+const toISODate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
 /**
- * Get the last 6 quarters based on current date
+ * Get the last 6 completed quarters based on current date
+ * fiscalYearEndMonth: 결산월 (12월 결산이면 Q1 = 1~3월, 3월 결산이면 Q1 = 4~6월)
  */
-export function getLast6Quarters(currentDate: Date = new Date()): QuarterPeriod[] {
+export function getLast6Quarters(
+  currentDate: Date = new Date(),
+  fiscalYearEndMonth: number = 12
+): QuarterPeriod[] {
+  const today = toISODate(currentDate.getTime());
   const quarters: QuarterPeriod[] = [];
-  const year = currentDate.getFullYear();
-  const month = currentDate.getMonth() + 1; // 1-12
-  
-  // Determine the most recent completed quarter
-  let currentQuarter: number;
-  if (month <= 3) {
-    currentQuarter = 4; // Q4 of previous year
-  } else if (month <= 6) {
-    currentQuarter = 1;
-  } else if (month <= 9) {
-    currentQuarter = 2;
-  } else {
-    currentQuarter = 3;
-  }
   
-  let currentYear = month <= 3 ? year - 1 : year;
-  
-  // Generate 6 quarters going backwards
-  for (let i = 0; i < 6; i++) {
-    const quarterNum = ((currentQuarter - i - 1 + 4) % 4) + 1;
-    const quarterYear = currentYear - Math.floor((i + (4 - currentQuarter)) / 4);
-    
-    quarters.unshift(createQuarterPeriod(quarterYear, quarterNum as 1|2|3|4));
+  // 현재 연도부터 역순으로 종료된 분기만 수집
+  for (let year = currentDate.getFullYear(); quarters.length < 6; year--) {
+    for (const quarter of [4, 3, 2, 1] as const) {
+      const period = createQuarterPeriod(year, quarter, fiscalYearEndMonth);
+      if (period.endDate < today && quarters.length < 6) {
+        quarters.unshift(period);
+      }
+    }
   }
   
   return quarters;
 }
 
 /**
- * Create a quarter period object
+ * Create a quarter period object for a fiscal year
+ *
+ * DART 사업연도(bsns_year)는 회계연도가 시작되는 연도 기준으로 가정
+ * 예: 3월 결산 2024 사업연도 = 2024-04-01 ~ 2025-03-31, Q1 = 2024-04-01 ~ 2024-06-30
  */
-function createQuarterPeriod(year: number, quarter: 1|2|3|4): QuarterPeriod {
+export function createQuarterPeriod(
+  year: number,
+  quarter: 1|2|3|4,
+  fiscalYearEndMonth: number = 12
+): QuarterPeriod {
   const quarterNames: Record<number, Quarter> = {
     1: 'Q1', 2: 'Q2', 3: 'Q3', 4: 'Q4'
   };
   
-  const startDates: Record<number, string> = {
-    1: `${year}-01-01`,
-    2: `${year}-04-01`,
-    3: `${year}-07-01`,
-    4: `${year}-10-01`
-  };
+  // 회계연도 시작월 (0-based): 12월 결산 → 0 (1월), 3월 결산 → 3 (4월)
+  const startMonth = fiscalYearEndMonth % 12 + (quarter - 1) * 3;
+  const start = Date.UTC(year, startMonth, 1);
+  const end = Date.UTC(year, startMonth + 3, 0); // 분기 마지막 달의 말일
   
-  const endDates: Record<number, string> = {
-    1: `${year}-03-31`,
-    2: `${year}-06-30`,
-    3: `${year}-09-30`,
-    4: `${year}-12-31`
-  };
+  const isCalendarYear = fiscalYearEndMonth === 12;
   
   return {
     year: String(year),
     quarter: quarterNames[quarter],
-    startDate: startDates[quarter],
-    endDate: endDates[quarter]
+    startDate: toISODate(start),
+    endDate: toISODate(end),
+    fiscalYearEndMonth,
+    label: `${isCalendarYear ? '' : 'FY'}${year}-${quarterNames[quarter]}`
   };
 }
 
+/**
+ * Quarters to fetch for a window of `count` quarters ending at the latest quarter
+ * whose report is due, plus `lookback` earlier quarters (YoY/TTM 계산용)
+ *
+ * 분기 단독값은 같은 사업연도의 누적값 차감으로 계산하므로 사업연도 단위로 조회하고,
+ * 기한 전이라도 종료된 분기는 조기 제출분을 위해 함께 조회
+ */
+export function getQuarterWindow(
+  count: number,
+  lookback: number,
+  fiscalYearEndMonth: number = 12,
+  currentDate: Date = new Date()
+): QuarterPeriod[] {
+  const today = toISODate(currentDate.getTime());
+  const currentYear = currentDate.getFullYear();
+  
+  // 보고서 제출 시점이 지난 가장 최근 분기
+  let latestDue = (currentYear - 1) * 4;
+  search: for (let year = currentYear; year >= currentYear - 2; year--) {
+    for (const quarter of [4, 3, 2, 1] as const) {
+      if (isQuarterReportDue(createQuarterPeriod(year, quarter, fiscalYearEndMonth), currentDate)) {
+        latestDue = year * 4 + quarter - 1;
+        break search;
+      }
+    }
+  }
+  
+  const oldest = latestDue - (count - 1) - lookback;
+  const firstYear = Math.max(Math.floor(oldest / 4), FIRST_FINANCIAL_YEAR);
+  const periods: QuarterPeriod[] = [];
+  
+  for (let year = firstYear; year <= currentYear; year++) {
+    for (const quarter of [1, 2, 3, 4] as const) {
+      const period = createQuarterPeriod(year, quarter, fiscalYearEndMonth);
+      // 아직 종료되지 않은 분기는 조회하지 않음
+      if (period.endDate < today) periods.push(period);
+    }
+  }
+  
+  return periods;
+}
+
+/**
+ * Whether the periodic report covering a quarter is likely to be filed by now
+ */
+export function isQuarterReportDue(period: QuarterPeriod, currentDate: Date = new Date()): boolean {
+  const days = period.quarter === 'Q4' ? ANNUAL_REPORT_LAG_DAYS : QUARTERLY_REPORT_LAG_DAYS;
+  const dueDate = Date.parse(period.endDate) + days * DAY_MS;
+  return currentDate.getTime() >= dueDate;
+}
+
+/**
+ * Statutory filing deadline of the periodic report covering a quarter (YYYY-MM-DD)
+ */
+export function getFilingDeadline(period: QuarterPeriod): string {
+  const days = period.quarter === 'Q4' ? ANNUAL_FILING_DEADLINE_DAYS : QUARTERLY_FILING_DEADLINE_DAYS;
+  return toISODate(Date.parse(period.endDate) + days * DAY_MS);
+}
+
 /**
  * Process raw financial data into structured format
  * 
- * DART API 요약재무정보(fnlttSinglAcnt) 반환값 구조:
+ * DART API 전체재무제표(fnlttSinglAcntAll) 반환값 구조 (12월 결산 기준, 비12월 결산은 회계연도 기준):
  * - 11013 (1분기): Q1 단독 (1~3월) - thstrm_amount
  * - 11012 (반기): 1~6월 누적 - thstrm_add_amount
  * - 11014 (3분기): 1~9월 누적 - thstrm_add_amount
@@ -91,12 +171,26 @@ function createQuarterPeriod(year: number, quarter: 1|2|3|4): QuarterPeriod {
  * - Q2 = 반기 누적 - Q1 (Q1 데이터 필요)
  * - Q3 = 3분기 누적 - 반기 누적 (Q2 누적 데이터 필요)
  * - Q4 = 연간 - 3분기 누적 (Q3 누적 데이터 필요)
+ * 영업활동현금흐름/설비투자/잉여현금흐름도 같은 방식으로 분기 단독값 계산
+ * 
+ * 연결(CFS)/별도(OFS) 기준이 섞이면 누적값 차감이 틀어지므로 사업연도마다 한 기준만 사용
+ * (auto: 선택한 기준의 보고서가 없는 사업연도는 다른 기준으로 대체)
+ * 
+ * 이후 보고서가 전기 값을 재작성했으면 재작성 값을 사용하고 restatements에 차이를 기록
  */
 export function processFinancialData(
-  statements: FinancialStatement[]
+  statements: FinancialStatement[],
+  fs: FinancialStatementMode = 'auto',
+  fiscalYearEndMonth: number = 12
 ): ProcessedFinancialData {
+  const basis = resolveStatementBasis(statements, fs);
+  const yearsWithBasis = new Set(statements.filter(s => s.fsDiv === basis).map(s => s.year));
+  const filtered = basis
+    ? statements.filter(s => !s.fsDiv || s.fsDiv === basis || (fs === 'auto' && !yearsWithBasis.has(s.year)))
+    : statements;
+  
   // Sort by year and quarter
-  const sorted = [...statements].sort((a, b) => {
+  const sorted = [...filtered].sort((a, b) => {
     const yearDiff = parseInt(a.year) - parseInt(b.year);
     if (yearDiff !== 0) return yearDiff;
     
@@ -111,8 +205,42 @@ export function processFinancialData(
     byYear[s.year].push(s);
   });
   
+  // 이후 보고서의 전기 값(frmtrm_*)으로 재작성된 누적값
+  const restated = collectRestatedFigures(sorted);
+  
   // Calculate quarterly standalone values from cumulative
   const quarterlyData: FinancialStatement[] = [];
+  const restatements: QuarterRestatement[] = [];
+  
+  const pushQuarter = (
+    year: string,
+    quarter: Quarter,
+    cumulative: FinancialStatement,
+    previous?: FinancialStatement
+  ) => {
+    const original = standaloneQuarter(year, quarter, cumulative, previous);
+    
+    // 누적값과 직전 누적값이 모두 재작성된 경우에만 재작성 값 사용 (기준 시점 혼합 방지)
+    const restatedCumulative = restated.get(periodKey(cumulative));
+    const restatedPrevious = previous ? restated.get(periodKey(previous)) : undefined;
+    const latest = restatedCumulative && (!previous || restatedPrevious)
+      ? standaloneQuarter(year, quarter, restatedCumulative, restatedPrevious)
+      : original;
+    
+    if (latest.revenue <= 0) return;
+    quarterlyData.push(latest);
+    
+    const changes = diffQuarter(original, latest);
+    if (Object.keys(changes).length > 0) {
+      restatements.push({
+        year,
+        quarter,
+        label: createQuarterPeriod(parseInt(year), QUARTER_NUMBERS[quarter], fiscalYearEndMonth).label,
+        rceptNo: latest.rceptNo ?? null,
+        changes
+      });
+    }
+  };
   
   Object.keys(byYear).sort().forEach(year => {
     const yearData = byYear[year];
@@ -125,114 +253,227 @@ export function processFinancialData(
     
     // Q1: 단독 값 그대로 사용
     if (q1 && q1.revenue > 0) {
-      quarterlyData.push({
-        year,
-        quarter: 'Q1',
-        revenue: q1.revenue,
-        operatingProfit: q1.operatingProfit,
-        netIncome: q1.netIncome
-      });
+      pushQuarter(year, 'Q1', q1);
     }
     
     // Q2: 반기 누적 - Q1 (Q1 데이터가 있어야만 계산 가능)
     if (q2Cum && q2Cum.revenue > 0 && q1) {
-      const q2Revenue = q2Cum.revenue - q1.revenue;
-      const q2Op = q2Cum.operatingProfit - q1.operatingProfit;
-      const q2Net = q2Cum.netIncome - q1.netIncome;
-      
-      if (q2Revenue > 0) {
-        quarterlyData.push({
-          year,
-          quarter: 'Q2',
-          revenue: q2Revenue,
-          operatingProfit: q2Op,
-          netIncome: q2Net
-        });
-      }
+      pushQuarter(year, 'Q2', q2Cum, q1);
     }
     
     // Q3: 3분기 누적 - 반기 누적 (Q2 누적 데이터가 있어야만 계산 가능)
     if (q3Cum && q3Cum.revenue > 0 && q2Cum) {
-      const q3Revenue = q3Cum.revenue - q2Cum.revenue;
-      const q3Op = q3Cum.operatingProfit - q2Cum.operatingProfit;
-      const q3Net = q3Cum.netIncome - q2Cum.netIncome;
-      
-      if (q3Revenue > 0) {
-        quarterlyData.push({
-          year,
-          quarter: 'Q3',
-          revenue: q3Revenue,
-          operatingProfit: q3Op,
-          netIncome: q3Net
-        });
-      }
+      pushQuarter(year, 'Q3', q3Cum, q2Cum);
     }
     
     // Q4: 연간 - 3분기 누적 (Q3 누적 데이터가 있어야만 계산 가능)
     if (q4Annual && q4Annual.revenue > 0 && q3Cum) {
-      const q4Revenue = q4Annual.revenue - q3Cum.revenue;
-      const q4Op = q4Annual.operatingProfit - q3Cum.operatingProfit;
-      const q4Net = q4Annual.netIncome - q3Cum.netIncome;
-      
-      if (q4Revenue > 0) {
-        quarterlyData.push({
-          year,
-          quarter: 'Q4',
-          revenue: q4Revenue,
-          operatingProfit: q4Op,
-          netIncome: q4Net
-        });
-      }
+      pushQuarter(year, 'Q4', q4Annual, q3Cum);
     }
   });
   
   const quarters: QuarterPeriod[] = quarterlyData.map(s => 
-    createQuarterPeriod(parseInt(s.year), 
-      ({ Q1: 1, Q2: 2, Q3: 3, Q4: 4 } as const)[s.quarter])
+    createQuarterPeriod(parseInt(s.year), QUARTER_NUMBERS[s.quarter], fiscalYearEndMonth)
   );
 
   return {
+    fs: basis,
     quarters,
     revenue: quarterlyData.map(s => s.revenue),
     operatingProfit: quarterlyData.map(s => s.operatingProfit),
-    netIncome: quarterlyData.map(s => s.netIncome)
+    netIncome: quarterlyData.map(s => s.netIncome),
+    operatingCashFlow: quarterlyData.map(s => s.operatingCashFlow),
+    capex: quarterlyData.map(s => s.capex),
+    freeCashFlow: quarterlyData.map(s => s.freeCashFlow),
+    restatements
+  };
+}
+
+const periodKey = (s: { year: string; quarter: Quarter }) => `${s.year}-${s.quarter}`;
+
+/**
+ * Collect restated cumulative figures from the following year's reports
+ * 
+ * 각 보고서는 전기 동기 누적값(frmtrm_*)을 함께 공시하며, 재작성(회계정책 변경, 오류수정,
+ * 중단영업 등)이 있으면 재작성된 값이 실림. 접수번호가 더 늦은 보고서의 값을 우선 사용.
+ */
+function collectRestatedFigures(statements: FinancialStatement[]): Map<string, FinancialStatement> {
+  const byKey = new Map(statements.map(s => [periodKey(s), s]));
+  const restated = new Map<string, FinancialStatement>();
+  
+  for (const later of statements) {
+    if (!later.priorPeriod) continue;
+    
+    const original = byKey.get(periodKey({ year: String(parseInt(later.year) - 1), quarter: later.quarter }));
+    if (!original) continue;
+    // 연도별 자동 선택으로 기준(연결/별도)이 바뀐 경우는 재작성이 아님
+    if (original.fsDiv && later.fsDiv && original.fsDiv !== later.fsDiv) continue;
+    if (original.rceptNo && later.rceptNo && later.rceptNo <= original.rceptNo) continue;
+    
+    const figures = { ...original, ...later.priorPeriod, rceptNo: later.rceptNo };
+    restated.set(periodKey(original), {
+      ...figures,
+      freeCashFlow: figures.operatingCashFlow - figures.capex
+    });
+  }
+  
+  return restated;
+}
+
+/**
+ * Per-metric differences between the original and restated standalone quarter
+ */
+function diffQuarter(
+  original: FinancialStatement,
+  latest: FinancialStatement
+): QuarterRestatement['changes'] {
+  const changes: QuarterRestatement['changes'] = {};
+  const metrics = ['revenue', 'operatingProfit', 'netIncome', 'operatingCashFlow', 'capex', 'freeCashFlow'] as const;
+  
+  for (const metric of metrics) {
+    if (original[metric] !== latest[metric]) {
+      changes[metric] = {
+        original: original[metric],
+        restated: latest[metric],
+        difference: latest[metric] - original[metric]
+      };
+    }
+  }
+  
+  return changes;
+}
+
+/**
+ * Standalone quarter = cumulative - previous cumulative
+ * 현금흐름표도 손익계산서와 동일하게 누적값으로 공시되므로 같은 방식으로 차감
+ */
+function standaloneQuarter(
+  year: string,
+  quarter: Quarter,
+  cumulative: FinancialStatement,
+  previous?: FinancialStatement
+): FinancialStatement {
+  const minus = (key: FlowMetric) =>
+    (cumulative[key] || 0) - (previous ? previous[key] || 0 : 0);
+  
+  const operatingCashFlow = minus('operatingCashFlow');
+  const capex = minus('capex');
+  
+  return {
+    year,
+    quarter,
+    revenue: minus('revenue'),
+    operatingProfit: minus('operatingProfit'),
+    netIncome: minus('netIncome'),
+    operatingCashFlow,
+    capex,
+    freeCashFlow: operatingCashFlow - capex,
+    rceptNo: cumulative.rceptNo
   };
 }
 
 /**
- * Calculate QoQ (Quarter-over-Quarter) change rates
- * Formula: ((Current - Previous) / Previous) × 100
+ * Decide which statement basis to use
+ * - CFS/OFS: 요청한 기준
+ * - auto: 가장 최근 보고서의 기준 (연결 없는 회사는 별도), 해당 기준이 없는 사업연도는 다른 기준으로 대체
+ */
+function resolveStatementBasis(
+  statements: FinancialStatement[],
+  fs: FinancialStatementMode
+): FinancialStatementBasis | null {
+  if (fs !== 'auto') return fs;
+  
+  const quarterOrder: Record<Quarter, number> = { Q1: 1, Q2: 2, Q3: 3, Q4: 4 };
+  const latest = statements
+    .filter(s => s.fsDiv)
+    .sort((a, b) => {
+      const yearDiff = parseInt(b.year) - parseInt(a.year);
+      if (yearDiff !== 0) return yearDiff;
+      return quarterOrder[b.quarter] - quarterOrder[a.quarter];
+    })[0];
+  
+  return latest?.fsDiv ?? null;
+}
+
+/**
+ * Calculate QoQ/YoY change rates, TTM sums and TTM CAGR
+ * Formula: ((Current - Previous) / |Previous|) × 100
+ * 
+ * 분기는 연도/분기 기준으로 매칭하므로 중간에 빠진 분기가 있어도
+ * YoY/TTM/CAGR이 다른 분기와 섞이지 않음 (QoQ는 직전 데이터 기준)
  */
 export function calculateQoQChanges(
   data: ProcessedFinancialData
 ): QoQChangeData {
+  // 분기 일련번호 (연도 * 4 + 분기) → 인덱스
+  const ordinals = data.quarters.map(q => parseInt(q.year) * 4 + QUARTER_NUMBERS[q.quarter] - 1);
+  const indexByOrdinal = new Map(ordinals.map((ordinal, index) => [ordinal, index]));
+  
+  const metric = (values: number[]) => calculateMetricChanges(values, ordinals, indexByOrdinal);
+  
   return {
     quarters: data.quarters,
-    revenue: calculateMetricChanges(data.revenue),
-    operatingProfit: calculateMetricChanges(data.operatingProfit),
-    netIncome: calculateMetricChanges(data.netIncome)
+    revenue: metric(data.revenue),
+    operatingProfit: metric(data.operatingProfit),
+    netIncome: metric(data.netIncome),
+    operatingCashFlow: metric(data.operatingCashFlow),
+    capex: metric(data.capex),
+    freeCashFlow: metric(data.freeCashFlow)
   };
 }
 
+const roundPercent = (value: number): number => Math.round(value * 100) / 100;
+
 /**
- * Calculate QoQ changes for a single metric array
+ * Percentage change, null when the base is zero or missing
  */
-function calculateMetricChanges(values: number[]): MetricWithChange[] {
-  return values.map((value, index) => {
-    let qoqChange: number | null = null;
-    
-    if (index > 0) {
-      const previous = values[index - 1];
-      if (previous !== 0) {
-        qoqChange = ((value - previous) / Math.abs(previous)) * 100;
-        // Round to 2 decimal places
-        qoqChange = Math.round(qoqChange * 100) / 100;
-      }
+export function percentChange(value: number, base: number | null | undefined): number | null {
+  if (base === null || base === undefined || base === 0) return null;
+  return roundPercent(((value - base) / Math.abs(base)) * 100);
+}
+
+/**
+ * Compound annual growth rate, only defined for positive start/end values
+ */
+function cagr(end: number | null, start: number | null, years: number): number | null {
+  if (end === null || start === null || end <= 0 || start <= 0) return null;
+  return roundPercent((Math.pow(end / start, 1 / years) - 1) * 100);
+}
+
+/**
+ * Calculate changes for a single metric array
+ */
+function calculateMetricChanges(
+  values: number[],
+  ordinals: number[],
+  indexByOrdinal: Map<number, number>
+): MetricWithChange[] {
+  const valueAt = (ordinal: number): number | null => {
+    const index = indexByOrdinal.get(ordinal);
+    return index === undefined ? null : values[index];
+  };
+  
+  const ttmAt = (ordinal: number): number | null => {
+    let sum = 0;
+    for (let offset = 0; offset < 4; offset++) {
+      const value = valueAt(ordinal - offset);
+      if (value === null) return null;
+      sum += value;
     }
+    return sum;
+  };
+  
+  return values.map((value, index) => {
+    const ordinal = ordinals[index];
+    const ttm = ttmAt(ordinal);
     
     return {
       value,
-      qoqChange,
+      qoqChange: index > 0 ? percentChange(value, values[index - 1]) : null,
+      yoyChange: percentChange(value, valueAt(ordinal - 4)),
+      ttm,
+      cagr3y: cagr(ttm, ttmAt(ordinal - 12), 3),
+      cagr5y: cagr(ttm, ttmAt(ordinal - 20), 5),
       formattedValue: formatKoreanCurrency(value)
     };
   });
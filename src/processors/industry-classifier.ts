@@ -0,0 +1,244 @@
+/**
+ * Industry Classifier
+ *
+ * Map DART induty_code (한국표준산업분류 KSIC, 10차 개정) to readable sector
+ * names and the section → division → group → class → subclass hierarchy.
+ */
+
+import type { IndustryClassification, IndustryLevel } from '../types';
+
+// 대분류 (알파벳)
+const KSIC_SECTIONS: Record<string, string> = {
+  A: '농업, 임업 및 어업',
+  B: '광업',
+  C: '제조업',
+  D: '전기, 가스, 증기 및 공기 조절 공급업',
+  E: '수도, 하수 및 폐기물 처리, 원료 재생업',
+  F: '건설업',
+  G: '도매 및 소매업',
+  H: '운수 및 창고업',
+  I: '숙박 및 음식점업',
+  J: '정보통신업',
+  K: '금융 및 보험업',
+  L: '부동산업',
+  M: '전문, 과학 및 기술 서비스업',
+  N: '사업시설 관리, 사업 지원 및 임대 서비스업',
+  O: '공공 행정, 국방 및 사회보장 행정',
+  P: '교육 서비스업',
+  Q: '보건업 및 사회복지 서비스업',
+  R: '예술, 스포츠 및 여가관련 서비스업',
+  S: '협회 및 단체, 수리 및 기타 개인 서비스업',
+  T: '가구 내 고용활동 및 달리 분류되지 않은 자가 소비 생산활동',
+  U: '국제 및 외국기관'
+};
+
+// 대분류별 중분류(2자리) 범위
+const SECTION_RANGES: [string, number, number][] = [
+  ['A', 1, 3], ['B', 5, 8], ['C', 10, 34], ['D', 35, 35], ['E', 36, 39],
+  ['F', 41, 42], ['G', 45, 47], ['H', 49, 52], ['I', 55, 56], ['J', 58, 63],
+  ['K', 64, 66], ['L', 68, 68], ['M', 70, 73], ['N', 74, 76], ['O', 84, 84],
+  ['P', 85, 85], ['Q', 86, 87], ['R', 90, 91], ['S', 94, 96], ['T', 97, 98],
+  ['U', 99, 99]
+];
+
+// 중분류 (2자리)
+const KSIC_DIVISIONS: Record<string, string> = {
+  '01': '농업',
+  '02': '임업',
+  '03': '어업',
+  '05': '석탄, 원유 및 천연가스 광업',
+  '06': '금속 광업',
+  '07': '비금속광물 광업; 연료용 제외',
+  '08': '광업 지원 서비스업',
+  '10': '식료품 제조업',
+  '11': '음료 제조업',
+  '12': '담배 제조업',
+  '13': '섬유제품 제조업; 의복 제외',
+  '14': '의복, 의복 액세서리 및 모피제품 제조업',
+  '15': '가죽, 가방 및 신발 제조업',
+  '16': '목재 및 나무제품 제조업; 가구 제외',
+  '17': '펄프, 종이 및 종이제품 제조업',
+  '18': '인쇄 및 기록매체 복제업',
+  '19': '코크스, 연탄 및 석유정제품 제조업',
+  '20': '화학 물질 및 화학제품 제조업; 의약품 제외',
+  '21': '의료용 물질 및 의약품 제조업',
+  '22': '고무 및 플라스틱제품 제조업',
+  '23': '비금속 광물제품 제조업',
+  '24': '1차 금속 제조업',
+  '25': '금속 가공제품 제조업; 기계 및 가구 제외',
+  '26': '전자 부품, 컴퓨터, 영상, 음향 및 통신장비 제조업',
+  '27': '의료, 정밀, 광학 기기 및 시계 제조업',
+  '28': '전기장비 제조업',
+  '29': '기타 기계 및 장비 제조업',
+  '30': '자동차 및 트레일러 제조업',
+  '31': '기타 운송장비 제조업',
+  '32': '가구 제조업',
+  '33': '기타 제품 제조업',
+  '34': '산업용 기계 및 장비 수리업',
+  '35': '전기, 가스, 증기 및 공기 조절 공급업',
+  '36': '수도업',
+  '37': '하수, 폐수 및 분뇨 처리업',
+  '38': '폐기물 수집, 운반, 처리 및 원료 재생업',
+  '39': '환경 정화 및 복원업',
+  '41': '종합 건설업',
+  '42': '전문직별 공사업',
+  '45': '자동차 및 부품 판매업',
+  '46': '도매 및 상품 중개업',
+  '47': '소매업; 자동차 제외',
+  '49': '육상 운송 및 파이프라인 운송업',
+  '50': '수상 운송업',
+  '51': '항공 운송업',
+  '52': '창고 및 운송관련 서비스업',
+  '55': '숙박업',
+  '56': '음식점 및 주점업',
+  '58': '출판업',
+  '59': '영상·오디오 기록물 제작 및 배급업',
+  '60': '방송업',
+  '61': '우편 및 통신업',
+  '62': '컴퓨터 프로그래밍, 시스템 통합 및 관리업',
+  '63': '정보서비스업',
+  '64': '금융업',
+  '65': '보험 및 연금업',
+  '66': '금융 및 보험관련 서비스업',
+  '68': '부동산업',
+  '70': '연구개발업',
+  '71': '전문 서비스업',
+  '72': '건축 기술, 엔지니어링 및 기타 과학기술 서비스업',
+  '73': '기타 전문, 과학 및 기술 서비스업',
+  '74': '사업시설 관리 및 조경 서비스업',
+  '75': '사업 지원 서비스업',
+  '76': '임대업; 부동산 제외',
+  '84': '공공 행정, 국방 및 사회보장 행정',
+  '85': '교육 서비스업',
+  '86': '보건업',
+  '87': '사회복지 서비스업',
+  '90': '창작, 예술 및 여가관련 서비스업',
+  '91': '스포츠 및 오락관련 서비스업',
+  '94': '협회 및 단체',
+  '95': '개인 및 소비용품 수리업',
+  '96': '기타 개인 서비스업',
+  '97': '가구 내 고용활동',
+  '98': '달리 분류되지 않은 자가 소비를 위한 가구의 재화 및 서비스 생산활동',
+  '99': '국제 및 외국기관'
+};
+
+// 소분류 (3자리) - 상장사가 많은 분류만 수록, 나머지는 중분류명으로 표시
+const KSIC_GROUPS: Record<string, string> = {
+  '101': '도축, 육류 가공 및 저장 처리업',
+  '107': '기타 식품 제조업',
+  '201': '기초 화학물질 제조업',
+  '202': '합성고무 및 플라스틱 물질 제조업',
+  '204': '기타 화학제품 제조업',
+  '211': '기초 의약물질 제조업',
+  '212': '의약품 제조업',
+  '213': '의료용품 및 기타 의약 관련제품 제조업',
+  '222': '플라스틱제품 제조업',
+  '241': '1차 철강 제조업',
+  '242': '1차 비철금속 제조업',
+  '261': '반도체 제조업',
+  '262': '전자 부품 제조업',
+  '263': '컴퓨터 및 주변장치 제조업',
+  '264': '통신 및 방송 장비 제조업',
+  '265': '영상 및 음향기기 제조업',
+  '271': '의료용 기기 제조업',
+  '272': '측정, 시험, 항해, 제어 및 기타 정밀기기 제조업',
+  '281': '전동기, 발전기 및 전기 변환·공급·제어 장치 제조업',
+  '282': '일차전지 및 이차전지 제조업',
+  '289': '기타 전기장비 제조업',
+  '291': '일반 목적용 기계 제조업',
+  '292': '특수 목적용 기계 제조업',
+  '301': '자동차용 엔진 및 자동차 제조업',
+  '303': '자동차 신품 부품 제조업',
+  '311': '선박 및 보트 건조업',
+  '313': '항공기, 우주선 및 부품 제조업',
+  '411': '건물 건설업',
+  '412': '토목 건설업',
+  '464': '생활용품 도매업',
+  '465': '기계장비 및 관련 물품 도매업',
+  '467': '기타 전문 도매업',
+  '471': '종합 소매업',
+  '581': '서적, 잡지 및 기타 인쇄물 출판업',
+  '582': '소프트웨어 개발 및 공급업',
+  '591': '영화, 비디오물, 방송프로그램 제작 및 배급업',
+  '602': '텔레비전 방송업',
+  '612': '전기 통신업',
+  '620': '컴퓨터 프로그래밍, 시스템 통합 및 관리업',
+  '631': '자료처리, 호스팅, 포털 및 기타 인터넷 정보매개 서비스업',
+  '641': '은행 및 저축기관',
+  '649': '기타 금융업',
+  '651': '보험업',
+  '661': '금융 지원 서비스업',
+  '701': '자연과학 및 공학 연구개발업',
+  '715': '회사 본부 및 경영 컨설팅 서비스업'
+};
+
+// 세세분류 (5자리) 중 별도 표기가 필요한 분류
+const KSIC_SUBCLASSES: Record<string, string> = {
+  '64992': '지주회사'
+};
+
+const LEVELS: IndustryLevel['level'][] = ['section', 'division', 'group', 'class', 'subclass'];
+
+/**
+ * Resolve the KSIC section letter for a numeric code
+ */
+export function getIndustrySection(code: string): string | null {
+  const division = parseInt(code.slice(0, 2), 10);
+  if (isNaN(division)) return null;
+  const range = SECTION_RANGES.find(([, from, to]) => division >= from && division <= to);
+  return range ? range[0] : null;
+}
+
+/**
+ * Normalize an industry code (숫자 1~5자리 또는 대분류 알파벳)
+ */
+export function normalizeIndustryCode(code: string | undefined | null): string | null {
+  const trimmed = (code || '').trim().toUpperCase();
+  if (/^[A-U]$/.test(trimmed)) return trimmed;
+  if (/^\d{2,5}$/.test(trimmed)) return trimmed;
+  return null;
+}
+
+/**
+ * Classify a KSIC code into readable names and hierarchy
+ * 가장 세분화된 이름이 있는 단계의 이름을 대표 이름으로 사용
+ */
+export function classifyIndustry(code: string | undefined | null): IndustryClassification | null {
+  const normalized = normalizeIndustryCode(code);
+  if (!normalized) return null;
+
+  const sectionCode = /^[A-U]$/.test(normalized) ? normalized : getIndustrySection(normalized);
+  if (!sectionCode) return null;
+
+  const hierarchy: IndustryLevel[] = [
+    { level: 'section', code: sectionCode, name: KSIC_SECTIONS[sectionCode] }
+  ];
+
+  if (normalized !== sectionCode) {
+    for (let length = 2; length <= normalized.length; length++) {
+      const prefix = normalized.slice(0, length);
+      const name = length === 2
+        ? KSIC_DIVISIONS[prefix]
+        : (length === 3 ? KSIC_GROUPS[prefix] : (length === 5 ? KSIC_SUBCLASSES[prefix] : undefined));
+      hierarchy.push({ level: LEVELS[length - 1], code: prefix, name: name ?? null });
+    }
+  }
+
+  const named = hierarchy.filter(level => level.name !== null);
+
+  return {
+    code: normalized,
+    name: named[named.length - 1].name!,
+    sector: KSIC_SECTIONS[sectionCode],
+    hierarchy
+  };
+}
+
+/**
+ * Whether a company's industry code falls under a (possibly broader) industry code
+ */
+export function matchesIndustry(companyCode: string | null, industryCode: string): boolean {
+  if (!companyCode) return false;
+  if (/^[A-U]$/.test(industryCode)) return getIndustrySection(companyCode) === industryCode;
+  return companyCode.startsWith(industryCode);
+}
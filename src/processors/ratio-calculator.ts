@@ -5,7 +5,7 @@
  * Extended with Operating Margin, Debt Ratio, and Current Ratio.
  */
 
-import type { FinancialDetails, FinancialRatios } from '../types';
+import type { BalanceSnapshot, FinancialDetails, FinancialRatios } from '../types';
 
 /**
  * Extended Financial Details with additional fields for new ratios
@@ -230,6 +230,48 @@ export function calculateAllExtendedRatios(
   };
 }
 
+/**
+ * Calculate extended ratios from summary accounts (fnlttMultiAcnt)
+ * 요약 재무정보에는 감가상각비가 없어 EBITDA 미사용
+ *
+ * @param balance - Latest balance sheet snapshot
+ * @param flows - Income statement flows for the period (annual or TTM)
+ * @param stockPrice - Current stock price (null if unavailable)
+ * @param totalShares - Outstanding shares (0 if unavailable)
+ * @returns Extended ratios, or null when total assets/equity or net income are missing
+ *          (주가가 없으면 PBR 등 주가 기반 비율은 null)
+ */
+export function calculateSummaryRatios(
+  balance: BalanceSnapshot | null | undefined,
+  flows: { revenue: number | null; operatingProfit: number | null; netIncome: number | null },
+  stockPrice: number | null,
+  totalShares: number
+): ExtendedFinancialRatios | null {
+  if (!balance || balance.totalAssets === null || balance.totalEquity === null || flows.netIncome === null) {
+    return null;
+  }
+
+  const ratios = calculateAllExtendedRatios(
+    {
+      totalAssets: balance.totalAssets,
+      totalEquity: balance.totalEquity,
+      totalShares,
+      ebitda: 0,
+      bookValue: balance.totalEquity,
+      totalDebt: balance.totalLiabilities ?? undefined,
+      currentAssets: balance.currentAssets ?? undefined,
+      currentLiabilities: balance.currentLiabilities ?? undefined,
+      operatingProfit: flows.operatingProfit ?? undefined,
+      revenue: flows.revenue ?? undefined
+    },
+    stockPrice ?? 0,
+    flows.netIncome,
+    stockPrice && totalShares > 0 ? stockPrice * totalShares : undefined
+  );
+
+  return stockPrice ? ratios : { ...ratios, pbr: null, evEbitda: null };
+}
+
 /**
  * Format ratio value for display
  */
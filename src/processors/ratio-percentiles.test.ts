@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { ExtendedFinancialRatios, Market, RatioSnapshotEntry } from '../types';
+import { percentileRank, median, calculateRatioPercentiles } from './ratio-percentiles';
+
+function entry(
+  corpCode: string,
+  industryCode: string | null,
+  market: Market | null,
+  roe: number | null,
+  overrides: Partial<RatioSnapshotEntry> = {}
+): RatioSnapshotEntry {
+  const ratios: ExtendedFinancialRatios = {
+    eps: null,
+    pbr: 1,
+    roa: null,
+    roe,
+    evEbitda: null,
+    operatingMargin: null,
+    debtRatio: null,
+    currentRatio: null
+  };
+  return {
+    corpCode,
+    industryCode,
+    market,
+    year: '2024',
+    ratios,
+    updatedAt: '2025-04-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('percentileRank', () => {
+  it('counts values below and half of the ties', () => {
+    expect(percentileRank([1, 2, 3, 4], 3)).toBe(62.5);
+    expect(percentileRank([5, 5, 5], 5)).toBe(50);
+    expect(percentileRank([1, 2, 2, 3], 2)).toBe(50);
+    expect(percentileRank([1, 2, 3], 0)).toBe(0);
+    expect(percentileRank([1, 2, 3], 10)).toBe(100);
+  });
+
+  it('rounds to one decimal place and returns null without values', () => {
+    expect(percentileRank([1, 2, 3], 2)).toBe(50);
+    expect(percentileRank([1, 2, 3], 3)).toBe(83.3);
+    expect(percentileRank([], 1)).toBeNull();
+  });
+});
+
+describe('median', () => {
+  it('handles odd and even counts without mutating the input', () => {
+    const values = [3, 1, 2];
+    expect(median(values)).toBe(2);
+    expect(values).toEqual([3, 1, 2]);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+});
+
+describe('calculateRatioPercentiles', () => {
+  const snapshot = [
+    entry('A', '26410', 'KOSPI', 5),
+    entry('B', '26410', 'KOSDAQ', 15),
+    entry('C', '26420', 'KOSPI', 10),
+    entry('D', '26420', 'KOSPI', 20),
+    entry('E', '26420', 'KOSDAQ', 25),
+    entry('F', '26420', 'KOSDAQ', null),
+    entry('G', '21100', 'KOSPI', 30),
+    entry('H', '26410', 'KOSPI', 100, { year: '2023' }),
+    entry('I', '26410', 'KOSPI', null, { ratios: null }),
+    entry('T', '26410', 'KOSPI', 0)
+  ];
+  const target = entry('T', '26410', 'KOSPI', 15);
+
+  it('widens the industry until the sample is large enough', () => {
+    const { industryCode, ratios } = calculateRatioPercentiles(target, snapshot);
+    expect(industryCode).toBe('264');
+    // 같은 사업연도, 비율이 있는 회사만: 5, 15, 10, 20, 25 + 대상 15
+    expect(ratios.roe.industry).toEqual({ percentile: 50, median: 15, count: 6 });
+  });
+
+  it('compares within the market and uses the target instead of its stale snapshot entry', () => {
+    const { ratios } = calculateRatioPercentiles(target, snapshot);
+    expect(ratios.roe.value).toBe(15);
+    // KOSPI: 5, 10, 20, 30 + 대상 15
+    expect(ratios.roe.market).toEqual({ percentile: 50, median: 15, count: 5 });
+  });
+
+  it('keeps the narrowest industry with enough companies', () => {
+    const crowded = [
+      ...snapshot,
+      ...['J', 'K', 'L', 'M'].map(code => entry(code, '26410', 'KOSDAQ', 40))
+    ];
+    expect(calculateRatioPercentiles(target, crowded).industryCode).toBe('26410');
+  });
+
+  it('returns distributions without a percentile when the target has no ratios', () => {
+    const { industryCode, ratios } = calculateRatioPercentiles(
+      entry('T', null, null, null, { ratios: null }),
+      snapshot
+    );
+    expect(industryCode).toBeNull();
+    expect(ratios.roe).toEqual({
+      value: null,
+      industry: { percentile: null, median: null, count: 0 },
+      market: { percentile: null, median: null, count: 0 }
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Ratio Percentile Calculator
+ *
+ * Place a company's ratios within its KSIC industry and its market using the
+ * ratio snapshot of all listed companies.
+ */
+
+import type {
+  ExtendedRatioKey,
+  RatioDistribution,
+  RatioPercentile,
+  RatioSnapshotEntry
+} from '../types';
+import { matchesIndustry } from './industry-classifier';
+
+export const RATIO_KEYS: ExtendedRatioKey[] = [
+  'eps', 'pbr', 'roa', 'roe', 'evEbitda', 'operatingMargin', 'debtRatio', 'currentRatio'
+];
+
+// 업종 표본이 이보다 적으면 상위 분류로 넓혀서 비교
+const MIN_INDUSTRY_SAMPLE = 5;
+
+/**
+ * Percentile rank (0~100): share of values below, ties counted as half
+ */
+export function percentileRank(values: number[], value: number): number | null {
+  if (values.length === 0) return null;
+  let below = 0;
+  let equal = 0;
+  for (const v of values) {
+    if (v < value) below++;
+    else if (v === value) equal++;
+  }
+  return Math.round(((below + equal / 2) / values.length) * 1000) / 10;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function distribution(group: RatioSnapshotEntry[], key: ExtendedRatioKey, value: number | null): RatioDistribution {
+  const values = group
+    .map(entry => entry.ratios?.[key])
+    .filter((v): v is number => v !== null && v !== undefined && isFinite(v));
+
+  return {
+    percentile: value !== null && isFinite(value) ? percentileRank(values, value) : null,
+    median: median(values),
+    count: values.length
+  };
+}
+
+/**
+ * Industry group for a company (세세분류 → 중분류 순으로 표본이 충분한 분류)
+ */
+function industryGroup(
+  industryCode: string | null,
+  entries: RatioSnapshotEntry[]
+): { code: string | null; group: RatioSnapshotEntry[] } {
+  if (!industryCode) return { code: null, group: [] };
+
+  let code = industryCode;
+  let group: RatioSnapshotEntry[] = [];
+  for (let length = industryCode.length; length >= 2; length--) {
+    code = industryCode.slice(0, length);
+    group = entries.filter(entry => matchesIndustry(entry.industryCode, code));
+    if (group.length >= MIN_INDUSTRY_SAMPLE) break;
+  }
+  return { code, group };
+}
+
+/**
+ * Percentile and median of each ratio within the company's industry and market
+ */
+export function calculateRatioPercentiles(
+  target: RatioSnapshotEntry,
+  snapshot: RatioSnapshotEntry[]
+): { industryCode: string | null; ratios: Record<ExtendedRatioKey, RatioPercentile> } {
+  // 같은 사업연도 기준으로만 비교 (대상 회사 값은 스냅샷보다 최신일 수 있음)
+  const entries = snapshot.filter(entry =>
+    entry.ratios !== null && entry.year === target.year && entry.corpCode !== target.corpCode
+  );
+  if (target.ratios) entries.push(target);
+
+  const industry = industryGroup(target.industryCode, entries);
+  const market = target.market ? entries.filter(entry => entry.market === target.market) : [];
+
+  const ratios = {} as Record<ExtendedRatioKey, RatioPercentile>;
+  for (const key of RATIO_KEYS) {
+    const value = target.ratios?.[key] ?? null;
+    ratios[key] = {
+      value,
+      industry: distribution(industry.group, key, value),
+      market: distribution(market, key, value)
+    };
+  }
+
+  return { industryCode: industry.code, ratios };
+}
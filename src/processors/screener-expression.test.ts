@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { FundamentalsRow } from '../types';
+import { compileScreenerExpression, resolveScreenerField, ScreenerExpressionError } from './screener-expression';
+
+function row(overrides: Partial<FundamentalsRow> = {}): FundamentalsRow {
+  return {
+    corpCode: '00126380',
+    corpName: '삼성전자',
+    stockCode: '005930',
+    market: 'KOSPI',
+    industryCode: '264',
+    year: '2024',
+    fs: 'CFS',
+    price: 70000,
+    marketCap: 400e12,
+    per: 12,
+    pbr: 1.2,
+    eps: 5000,
+    roe: 9,
+    roa: 6,
+    dividendYield: 2,
+    operatingMargin: 10,
+    debtRatio: 30,
+    currentRatio: 250,
+    revenue: 300e12,
+    operatingProfit: 30e12,
+    netIncome: 30e12,
+    revenueGrowth: 15,
+    operatingProfitGrowth: 300,
+    netIncomeGrowth: 100,
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+const matches = (expression: string, overrides: Partial<FundamentalsRow> = {}) =>
+  compileScreenerExpression(expression)(row(overrides));
+
+describe('compileScreenerExpression', () => {
+  it('passes every row for an empty expression', () => {
+    expect(matches('   ')).toBe(true);
+  });
+
+  it('compares numbers with each operator', () => {
+    expect(matches('per < 13')).toBe(true);
+    expect(matches('per <= 12')).toBe(true);
+    expect(matches('per > 12')).toBe(false);
+    expect(matches('per >= 12')).toBe(true);
+    expect(matches('per = 12')).toBe(true);
+    expect(matches('per != 12')).toBe(false);
+    expect(matches('per>-5')).toBe(true);
+  });
+
+  it('matches field names and keywords case-insensitively', () => {
+    expect(matches('PER < 13 and ROE > 5')).toBe(true);
+    expect(matches('market = kospi')).toBe(true);
+  });
+
+  it('applies unit suffixes', () => {
+    expect(matches('revenue >= 300조')).toBe(true);
+    expect(matches('revenue > 300조')).toBe(false);
+    expect(matches('marketCap > 5000억', { marketCap: 6000e8 })).toBe(true);
+    expect(matches('marketCap > 5000 억', { marketCap: 4000e8 })).toBe(false);
+    expect(matches('roe >= 9%')).toBe(true);
+  });
+
+  it('keeps leading zeros in numeric string values', () => {
+    expect(matches('stockCode = 005930')).toBe(true);
+    expect(matches('stockCode IN (000660, 005930)')).toBe(true);
+    expect(matches('stockCode = 5930')).toBe(false);
+  });
+
+  it('matches industry codes by prefix and by section', () => {
+    expect(matches('industryCode = 26')).toBe(true);
+    expect(matches('industryCode = C')).toBe(true);
+    expect(matches('industryCode = 27')).toBe(false);
+    expect(matches('industryCode IN (K, 26)')).toBe(true);
+  });
+
+  it('binds AND tighter than OR and honours parentheses', () => {
+    // per > 100 OR (roe > 5 AND market = KOSDAQ) => false
+    expect(matches('per > 100 OR roe > 5 AND market = KOSDAQ')).toBe(false);
+    // (per > 100 OR roe > 5) AND market = KOSPI => true
+    expect(matches('(per > 100 OR roe > 5) AND market = KOSPI')).toBe(true);
+    expect(matches('per < 100 OR roe > 5 AND market = KOSDAQ')).toBe(true);
+    expect(matches('NOT per > 100 AND market = KOSPI')).toBe(true);
+  });
+
+  it('never matches comparisons with missing values, even through NOT', () => {
+    expect(matches('per < 10', { per: null })).toBe(false);
+    expect(matches('NOT per < 10', { per: null })).toBe(false);
+    expect(matches('NOT NOT per < 10', { per: null })).toBe(false);
+    expect(matches('market IN (KOSPI, KOSDAQ)', { market: null })).toBe(false);
+    expect(matches('NOT market = KOSDAQ', { market: null })).toBe(false);
+    expect(matches('NOT per < 10', { per: 15 })).toBe(true);
+  });
+
+  it('decides AND/OR with a missing side when the other side settles it', () => {
+    expect(matches('per < 10 OR roe > 5', { per: null })).toBe(true);
+    expect(matches('per < 10 AND roe > 50', { per: null })).toBe(false);
+    expect(matches('NOT (per < 10 AND roe > 50)', { per: null })).toBe(true);
+    expect(matches('NOT (per < 10 OR roe > 50)', { per: null })).toBe(false);
+  });
+
+  it('reports tokenizer errors with their position', () => {
+    expect(() => compileScreenerExpression('per < 10 & roe > 5')).toThrow(ScreenerExpressionError);
+    expect(() => compileScreenerExpression('per < 10 & roe > 5')).toThrow("알 수 없는 문자 '&' (위치 10)");
+    expect(() => compileScreenerExpression("market = 'KOSPI")).toThrow('닫히지 않은 문자열 (위치 10)');
+  });
+
+  it('reports parser errors with their position', () => {
+    expect(() => compileScreenerExpression('(per < 10')).toThrow("')'가 필요합니다 (위치 10)");
+    expect(() => compileScreenerExpression('per < 10 roe > 5')).toThrow('식이 올바르게 끝나지 않았습니다 (위치 10)');
+    expect(() => compileScreenerExpression('per 10')).toThrow('비교 연산자가 필요합니다 (위치 5)');
+    expect(() => compileScreenerExpression('foo > 1')).toThrow("알 수 없는 필드 'foo' (위치 1)");
+    expect(() => compileScreenerExpression('per < KOSPI')).toThrow("'per'에는 숫자가 필요합니다 (위치 7)");
+    expect(() => compileScreenerExpression('market > KOSPI')).toThrow("'market'에는 = 또는 != 만 사용할 수 있습니다 (위치 8)");
+    expect(() => compileScreenerExpression('per < 10 AND')).toThrow('필드명이 필요합니다 (위치 13)');
+  });
+});
+
+describe('resolveScreenerField', () => {
+  it('resolves field names case-insensitively', () => {
+    expect(resolveScreenerField('PER')).toBe('per');
+    expect(resolveScreenerField('marketcap')).toBe('marketCap');
+    expect(resolveScreenerField('unknown')).toBeNull();
+  });
+});
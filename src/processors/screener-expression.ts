@@ -0,0 +1,340 @@
+/**
+ * Screener Expression Parser
+ *
+ * Parse filter expressions such as `per < 10 AND roe > 15 AND market = KOSDAQ`
+ * into a predicate over fundamentals rows.
+ *
+ * 문법:
+ *   expr       := and ('OR' and)*
+ *   and        := unary ('AND' unary)*
+ *   unary      := 'NOT' unary | '(' expr ')' | comparison
+ *   comparison := field op value | field 'IN' '(' value (',' value)* ')'
+ *   op         := < | <= | > | >= | = | !=
+ *   value      := 숫자(단위 %, 억, 조 허용) | 문자열('KOSPI', "삼성") | 식별자(KOSDAQ)
+ *
+ * 값이 없는(null) 항목과의 비교는 '알 수 없음'으로 3치 논리(NOT 알 수 없음 = 알 수 없음)로 계산하고
+ * 최종 결과가 참인 행만 통과 (예: `NOT per < 10`은 PER이 없는 회사를 포함하지 않음). industryCode는 상위 분류 코드(26, C 등)로 비교하면 하위 업종을 포함.
+ */
+
+import type { FundamentalsRow, ScreenerField } from '../types';
+import { matchesIndustry, normalizeIndustryCode } from './industry-classifier';
+
+type FieldType = 'number' | 'string';
+
+export const SCREENER_FIELDS: Record<ScreenerField, FieldType> = {
+  corpName: 'string',
+  stockCode: 'string',
+  market: 'string',
+  industryCode: 'string',
+  price: 'number',
+  marketCap: 'number',
+  per: 'number',
+  pbr: 'number',
+  eps: 'number',
+  roe: 'number',
+  roa: 'number',
+  dividendYield: 'number',
+  operatingMargin: 'number',
+  debtRatio: 'number',
+  currentRatio: 'number',
+  revenue: 'number',
+  operatingProfit: 'number',
+  netIncome: 'number',
+  revenueGrowth: 'number',
+  operatingProfitGrowth: 'number',
+  netIncomeGrowth: 'number'
+};
+
+// 필드명은 대소문자 구분 없이 허용 (PER, ROE 등)
+const FIELD_LOOKUP = new Map(
+  (Object.keys(SCREENER_FIELDS) as ScreenerField[]).map(field => [field.toLowerCase(), field])
+);
+
+const UNITS: Record<string, number> = { '%': 1, '억': 1e8, '조': 1e12 };
+
+const OPERATORS = ['<=', '>=', '!=', '<', '>', '='] as const;
+type Operator = typeof OPERATORS[number];
+
+export class ScreenerExpressionError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (위치 ${position + 1})`);
+    this.name = 'ScreenerExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; raw: string; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'operator'; value: Operator; position: number }
+  | { kind: 'paren'; value: '(' | ')'; position: number }
+  | { kind: 'comma'; position: number }
+  | { kind: 'end'; position: number };
+
+type Value = number | string;
+
+type ExpressionNode =
+  | { type: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'compare'; field: ScreenerField; operator: Operator; value: Value }
+  | { type: 'in'; field: ScreenerField; values: Value[] };
+
+export type ScreenerPredicate = (row: FundamentalsRow) => boolean;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char, position: i++ });
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ kind: 'comma', position: i++ });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, i));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      const end = input.indexOf(char, i + 1);
+      if (end === -1) throw new ScreenerExpressionError('닫히지 않은 문자열', i);
+      tokens.push({ kind: 'string', value: input.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?\s*(%|억|조)?/.exec(input.slice(i));
+    if (number) {
+      const unit = number[3] ? UNITS[number[3]] : 1;
+      tokens.push({ kind: 'number', value: parseFloat(number[0]) * unit, raw: number[0].trim(), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(input.slice(i));
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new ScreenerExpressionError(`알 수 없는 문자 '${char}'`, i);
+  }
+
+  tokens.push({ kind: 'end', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index: number;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+    this.index = 0;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new ScreenerExpressionError('식이 올바르게 끝나지 않았습니다', token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.kind === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private expectParen(value: '(' | ')'): void {
+    const token = this.next();
+    if (token.kind !== 'paren' || token.value !== value) {
+      throw new ScreenerExpressionError(`'${value}'가 필요합니다`, token.position);
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.isKeyword('OR')) {
+      this.next();
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseUnary();
+    while (this.isKeyword('AND')) {
+      this.next();
+      node = { type: 'and', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isKeyword('NOT')) {
+      this.next();
+      return { type: 'not', operand: this.parseUnary() };
+    }
+
+    const token = this.peek();
+    if (token.kind === 'paren' && token.value === '(') {
+      this.next();
+      const node = this.parseOr();
+      this.expectParen(')');
+      return node;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const fieldToken = this.next();
+    if (fieldToken.kind !== 'word') {
+      throw new ScreenerExpressionError('필드명이 필요합니다', fieldToken.position);
+    }
+    const field = FIELD_LOOKUP.get(fieldToken.value.toLowerCase());
+    if (!field) {
+      throw new ScreenerExpressionError(`알 수 없는 필드 '${fieldToken.value}'`, fieldToken.position);
+    }
+
+    if (this.isKeyword('IN')) {
+      this.next();
+      this.expectParen('(');
+      const values = [this.parseValue(field)];
+      while (this.peek().kind === 'comma') {
+        this.next();
+        values.push(this.parseValue(field));
+      }
+      this.expectParen(')');
+      return { type: 'in', field, values };
+    }
+
+    const operatorToken = this.next();
+    if (operatorToken.kind !== 'operator') {
+      throw new ScreenerExpressionError('비교 연산자가 필요합니다', operatorToken.position);
+    }
+    const operator = operatorToken.value;
+    if (SCREENER_FIELDS[field] === 'string' && operator !== '=' && operator !== '!=') {
+      throw new ScreenerExpressionError(`'${field}'에는 = 또는 != 만 사용할 수 있습니다`, operatorToken.position);
+    }
+
+    return { type: 'compare', field, operator, value: this.parseValue(field) };
+  }
+
+  private parseValue(field: ScreenerField): Value {
+    const token = this.next();
+
+    if (SCREENER_FIELDS[field] === 'number') {
+      if (token.kind !== 'number') {
+        throw new ScreenerExpressionError(`'${field}'에는 숫자가 필요합니다`, token.position);
+      }
+      return token.value;
+    }
+
+    if (token.kind === 'string' || token.kind === 'word') return token.value;
+    // 종목코드/업종코드처럼 숫자로 쓴 문자열 값 (앞자리 0 보존)
+    if (token.kind === 'number') return token.raw;
+    throw new ScreenerExpressionError(`'${field}'에는 값이 필요합니다`, token.position);
+  }
+}
+
+function compareValues(actual: Value, operator: Operator, expected: Value): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+function matchesValue(field: ScreenerField, actual: Value, expected: Value): boolean {
+  if (field === 'industryCode') {
+    const code = normalizeIndustryCode(String(expected));
+    return code !== null && matchesIndustry(String(actual), code);
+  }
+  if (typeof actual === 'string') return actual.toUpperCase() === String(expected).toUpperCase();
+  return actual === expected;
+}
+
+/**
+ * Evaluate a node with three-valued logic (null = 값이 없어 알 수 없음)
+ */
+function evaluate(node: ExpressionNode, row: FundamentalsRow): boolean | null {
+  switch (node.type) {
+    case 'and': {
+      const left = evaluate(node.left, row);
+      if (left === false) return false;
+      const right = evaluate(node.right, row);
+      if (right === false) return false;
+      return left === null || right === null ? null : true;
+    }
+    case 'or': {
+      const left = evaluate(node.left, row);
+      if (left === true) return true;
+      const right = evaluate(node.right, row);
+      if (right === true) return true;
+      return left === null || right === null ? null : false;
+    }
+    case 'not': {
+      const operand = evaluate(node.operand, row);
+      return operand === null ? null : !operand;
+    }
+    case 'in': {
+      const actual = row[node.field];
+      if (actual === null || actual === '') return null;
+      return node.values.some(value => matchesValue(node.field, actual, value));
+    }
+    case 'compare': {
+      const actual = row[node.field];
+      if (actual === null || actual === '') return null;
+      if (node.operator === '=') return matchesValue(node.field, actual, node.value);
+      if (node.operator === '!=') return !matchesValue(node.field, actual, node.value);
+      return compareValues(actual, node.operator, node.value);
+    }
+  }
+}
+
+/**
+ * Compile a filter expression into a row predicate (빈 식은 전체 통과)
+ */
+export function compileScreenerExpression(expression: string): ScreenerPredicate {
+  if (expression.trim() === '') return () => true;
+
+  const ast = new Parser(tokenize(expression)).parse();
+  return (row) => evaluate(ast, row) === true;
+}
+
+/**
+ * Resolve a field name (대소문자 무시), null if unknown
+ */
+export function resolveScreenerField(name: string): ScreenerField | null {
+  return FIELD_LOOKUP.get(name.toLowerCase()) ?? null;
+}
@@ -0,0 +1,181 @@
+/**
+ * Segment Processor
+ *
+ * Extract per-segment revenue and operating profit from dimensional XBRL facts
+ * (영업부문 정보 주석: 사업부문별 / 지역별).
+ */
+
+import type {
+  FinancialStatementBasis,
+  SegmentAxis,
+  SegmentPeriod,
+  SegmentValue,
+  XbrlFact
+} from '../types';
+
+const CONSOLIDATION_AXIS = 'ifrs-full_ConsolidatedAndSeparateFinancialStatementsAxis';
+
+const BASIS_MEMBERS: Record<FinancialStatementBasis, string> = {
+  CFS: 'ifrs-full_ConsolidatedMember',
+  OFS: 'ifrs-full_SeparateMember'
+};
+
+const SEGMENT_AXES: Record<SegmentAxis, string[]> = {
+  business: ['ifrs-full_SegmentsAxis', 'ifrs-full_ReportableSegmentsAxis'],
+  region: ['ifrs-full_GeographicalAreasAxis']
+};
+
+// 우선순위 순 (외부고객 매출이 있으면 내부거래 제거 전 총매출보다 우선)
+const REVENUE_CONCEPTS = [
+  'ifrs-full_RevenueFromExternalCustomers',
+  'ifrs-full_Revenue',
+  'ifrs-full_RevenueFromSaleOfGoods'
+];
+
+const OPERATING_PROFIT_CONCEPTS = [
+  'dart_OperatingIncomeLoss',
+  'ifrs-full_ProfitLossFromOperatingActivities'
+];
+
+// 표준 계정이 아닌 회사 고유 계정은 라벨로 판별
+const REVENUE_LABEL = /^(외부)?매출(액)?$|^수익\(매출액\)$|^영업수익$/;
+const OPERATING_PROFIT_LABEL = /^영업(이익|손익|이익\(손실\))$/;
+
+// 합계 멤버 (부문 값이 아닌 전체)
+const TOTAL_MEMBERS = new Set([
+  'ifrs-full_OperatingSegmentsMember',
+  'ifrs-full_ReportableSegmentsMember',
+  'ifrs-full_EntitysTotalForSegmentsMember',
+  'ifrs-full_SegmentsMember'
+]);
+
+const ADJUSTMENT_MEMBER = /Elimination|Reconciling|Unallocated|Adjustment/;
+
+const memberName = (member: string): string =>
+  member.slice(member.indexOf('_') + 1).replace(/Member$/, '');
+
+function daysBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Facts dimensioned only by the segment axis (and the consolidation axis)
+ */
+function segmentFacts(
+  facts: XbrlFact[],
+  axis: SegmentAxis,
+  basis: FinancialStatementBasis
+): { fact: XbrlFact; member: string }[] {
+  const axes = SEGMENT_AXES[axis];
+  const result: { fact: XbrlFact; member: string }[] = [];
+
+  for (const fact of facts) {
+    if (!fact.period.start || !fact.period.end) continue;
+
+    const dimensions = Object.entries(fact.dimensions);
+    const segment = dimensions.find(([dimension]) => axes.includes(dimension));
+    if (!segment) continue;
+
+    const others = dimensions.filter(([dimension]) => dimension !== segment[0]);
+    const basisOnly = others.every(([dimension, member]) =>
+      dimension === CONSOLIDATION_AXIS && member === BASIS_MEMBERS[basis]
+    );
+    if (basisOnly) result.push({ fact, member: segment[1] });
+  }
+
+  return result;
+}
+
+/**
+ * Pick the first concept (by priority, then label) reported for the segment axis
+ */
+function pickConcept(
+  entries: { fact: XbrlFact }[],
+  concepts: string[],
+  labelPattern: RegExp
+): string | null {
+  const available = new Set(entries.map(entry => entry.fact.concept));
+  const standard = concepts.find(concept => available.has(concept));
+  if (standard) return standard;
+
+  const labeled = entries.find(entry =>
+    labelPattern.test((entry.fact.label || '').replace(/\s/g, ''))
+  );
+  return labeled?.fact.concept ?? null;
+}
+
+/**
+ * Build per-period segment revenue/operating profit
+ * 기간은 최신순, 부문은 매출 큰 순 (조정 항목은 뒤로)
+ */
+export function extractSegments(
+  facts: XbrlFact[],
+  axis: SegmentAxis,
+  basis: FinancialStatementBasis,
+  memberLabels: Record<string, string> = {}
+): SegmentPeriod[] {
+  const entries = segmentFacts(facts, axis, basis)
+    .filter(entry => !TOTAL_MEMBERS.has(entry.member));
+
+  const revenueConcept = pickConcept(entries, REVENUE_CONCEPTS, REVENUE_LABEL);
+  const profitConcept = pickConcept(entries, OPERATING_PROFIT_CONCEPTS, OPERATING_PROFIT_LABEL);
+  if (!revenueConcept && !profitConcept) return [];
+
+  const periods = new Map<string, SegmentPeriod>();
+
+  for (const { fact, member } of entries) {
+    const metric = fact.concept === revenueConcept
+      ? 'revenue'
+      : (fact.concept === profitConcept ? 'operatingProfit' : null);
+    if (!metric) continue;
+
+    const start = fact.period.start!;
+    const end = fact.period.end!;
+    const key = `${start}:${end}`;
+
+    let period = periods.get(key);
+    if (!period) {
+      period = { start, end, months: Math.round(daysBetween(start, end) / 30.4), segments: [] };
+      periods.set(key, period);
+    }
+
+    let segment = period.segments.find(s => s.member === member);
+    if (!segment) {
+      segment = {
+        member,
+        name: memberLabels[member] || memberName(member),
+        revenue: null,
+        operatingProfit: null,
+        isAdjustment: ADJUSTMENT_MEMBER.test(member)
+      };
+      period.segments.push(segment);
+    }
+
+    segment[metric] = fact.value;
+  }
+
+  const sortSegments = (a: SegmentValue, b: SegmentValue) =>
+    Number(a.isAdjustment) - Number(b.isAdjustment) || (b.revenue ?? 0) - (a.revenue ?? 0);
+
+  return Array.from(periods.values())
+    .map(period => ({ ...period, segments: period.segments.sort(sortSegments) }))
+    .sort((a, b) => b.end.localeCompare(a.end) || a.months - b.months);
+}
+
+/**
+ * Merge periods from several reports, preferring the most recent report
+ * reports는 최신 보고서 순으로 전달 (전기 값은 최신 보고서의 재작성 값 사용)
+ */
+export function mergeSegmentPeriods(reports: SegmentPeriod[][]): SegmentPeriod[] {
+  const byKey = new Map<string, SegmentPeriod>();
+
+  for (const periods of reports) {
+    for (const period of periods) {
+      const key = `${period.start}:${period.end}`;
+      if (!byKey.has(key)) byKey.set(key, period);
+    }
+  }
+
+  return Array.from(byKey.values())
+    .sort((a, b) => b.end.localeCompare(a.end) || a.months - b.months);
+}
@@ -0,0 +1,95 @@
+/**
+ * Statement Processor
+ *
+ * Normalize DART 단일회사 전체 재무제표(fnlttSinglAcntAll) rows into
+ * statement sections grouped by sj_div.
+ */
+
+import type {
+  DARTAccountItem,
+  StatementDivision,
+  StatementLineItem,
+  StatementSection
+} from '../types';
+
+// 재무제표 표시 순서: 재무상태표 → 손익계산서 → 포괄손익계산서 → 현금흐름표 → 자본변동표 → 주석(XBRL)
+const DIVISION_ORDER: StatementDivision[] = ['BS', 'IS', 'CIS', 'CF', 'SCE', 'NOTES'];
+
+const DIVISION_NAMES: Record<StatementDivision, string> = {
+  BS: '재무상태표',
+  IS: '손익계산서',
+  CIS: '포괄손익계산서',
+  CF: '현금흐름표',
+  SCE: '자본변동표',
+  NOTES: '주석'
+};
+
+/**
+ * Parse a DART amount string, keeping "no value" distinct from zero
+ * e.g., "1,234" -> 1234, "-" or "" -> null
+ */
+export function parseStatementAmount(amount: string | undefined): number | null {
+  if (amount === undefined || amount === null) return null;
+  const cleaned = String(amount).replace(/,/g, '').replace(/\s/g, '');
+  if (cleaned === '' || cleaned === '-') return null;
+  const parsed = Number(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Convert a single DART account row into a line item
+ */
+export function normalizeLineItem(item: DARTAccountItem): StatementLineItem {
+  const detail = item.account_detail && item.account_detail !== '-'
+    ? item.account_detail
+    : null;
+
+  return {
+    accountId: item.account_id || '',
+    accountName: (item.account_nm || '').trim(),
+    accountDetail: detail,
+    order: parseInt(item.ord || '0', 10) || 0,
+    current: parseStatementAmount(item.thstrm_amount),
+    currentCumulative: parseStatementAmount(item.thstrm_add_amount),
+    prior: parseStatementAmount(item.frmtrm_q_amount) ?? parseStatementAmount(item.frmtrm_amount),
+    priorCumulative: parseStatementAmount(item.frmtrm_add_amount) ?? parseStatementAmount(item.frmtrm_amount),
+    prePrior: parseStatementAmount(item.bfefrmtrm_amount)
+  };
+}
+
+/**
+ * Group DART rows by statement division (sj_div) and sort by ord
+ */
+export function normalizeStatements(items: DARTAccountItem[]): StatementSection[] {
+  const sections = new Map<StatementDivision, StatementSection>();
+
+  for (const item of items) {
+    const division = item.sj_div as StatementDivision;
+    if (!DIVISION_ORDER.includes(division)) continue;
+
+    let section = sections.get(division);
+    if (!section) {
+      section = {
+        division,
+        name: item.sj_nm || DIVISION_NAMES[division],
+        periodNames: {
+          current: item.thstrm_nm || null,
+          prior: item.frmtrm_q_nm || item.frmtrm_nm || null,
+          prePrior: item.bfefrmtrm_nm || null
+        },
+        items: []
+      };
+      sections.set(division, section);
+    }
+
+    section.items.push(normalizeLineItem(item));
+  }
+
+  return DIVISION_ORDER
+    .filter(division => sections.has(division))
+    .map(division => {
+      const section = sections.get(division)!;
+      section.items.sort((a, b) => a.order - b.order);
+      return section;
+    });
+}
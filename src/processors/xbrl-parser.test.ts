@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseXbrlInstance,
+  parseLabelLinkbase,
+  parsePresentationLinkbase,
+  factsToAccountItems,
+  parseXbrlPackage
+} from './xbrl-parser';
+
+const context = (id: string, period: string, member = 'ifrs-full:ConsolidatedMember', extra = '') => `
+  <xbrli:context id="${id}">
+    <xbrli:entity>
+      <xbrli:identifier scheme="http://dart.fss.or.kr">00126380</xbrli:identifier>
+      <xbrli:segment>
+        <xbrldi:explicitMember dimension="ifrs-full:ConsolidatedAndSeparateFinancialStatementsAxis">${member}</xbrldi:explicitMember>
+        ${extra}
+      </xbrli:segment>
+    </xbrli:entity>
+    <xbrli:period>${period}</xbrli:period>
+  </xbrli:context>`;
+
+const duration = (start: string, end: string) => `<xbrli:startDate>${start}</xbrli:startDate><xbrli:endDate>${end}</xbrli:endDate>`;
+const instant = (date: string) => `<xbrli:instant>${date}</xbrli:instant>`;
+
+// 2024년 3분기보고서
+const INSTANCE = `<?xml version="1.0" encoding="UTF-8"?>
+<xbrli:xbrl xmlns:xbrli="http://www.xbrl.org/2003/instance" xmlns:ifrs-full="http://xbrl.ifrs.org/taxonomy/2019-03-27/ifrs-full"
+  xmlns:xbrldi="http://xbrl.org/2006/xbrldi" xmlns:iso4217="http://www.xbrl.org/2003/iso4217"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:dart="http://dart.fss.or.kr">
+  ${context('CurQ', duration('2024-07-01', '2024-09-30'))}
+  ${context('CurAcc', duration('2024-01-01', '2024-09-30'))}
+  ${context('PriorQ', duration('2023-07-01', '2023-09-30'))}
+  ${context('PriorAcc', duration('2023-01-01', '2023-09-30'))}
+  ${context('CurEnd', instant('2024-09-30'))}
+  ${context('PriorEnd', instant('2023-12-31'))}
+  ${context('SepQ', duration('2024-07-01', '2024-09-30'), 'ifrs-full:SeparateMember')}
+  ${context('SegQ', duration('2024-07-01', '2024-09-30'), 'ifrs-full:ConsolidatedMember',
+    '<xbrldi:explicitMember dimension="ifrs-full:SegmentsAxis">dart:DXMember</xbrldi:explicitMember>')}
+  <xbrli:unit id="KRW"><xbrli:measure>iso4217:KRW</xbrli:measure></xbrli:unit>
+  <xbrli:unit id="KRWPerShare">
+    <xbrli:divide>
+      <xbrli:unitNumerator><xbrli:measure>iso4217:KRW</xbrli:measure></xbrli:unitNumerator>
+      <xbrli:unitDenominator><xbrli:measure>xbrli:shares</xbrli:measure></xbrli:unitDenominator>
+    </xbrli:divide>
+  </xbrli:unit>
+  <ifrs-full:Revenue contextRef="CurQ" unitRef="KRW" decimals="-6">300</ifrs-full:Revenue>
+  <ifrs-full:Revenue contextRef="CurAcc" unitRef="KRW" decimals="-6">800</ifrs-full:Revenue>
+  <ifrs-full:Revenue contextRef="PriorQ" unitRef="KRW" decimals="-6">250</ifrs-full:Revenue>
+  <ifrs-full:Revenue contextRef="PriorAcc" unitRef="KRW" decimals="-6">700</ifrs-full:Revenue>
+  <ifrs-full:Revenue contextRef="SepQ" unitRef="KRW" decimals="-6">120</ifrs-full:Revenue>
+  <ifrs-full:Revenue contextRef="SegQ" unitRef="KRW" decimals="-6">180</ifrs-full:Revenue>
+  <ifrs-full:BasicEarningsLossPerShare contextRef="CurQ" unitRef="KRWPerShare" decimals="0">1,234</ifrs-full:BasicEarningsLossPerShare>
+  <ifrs-full:Assets contextRef="CurEnd" unitRef="KRW" decimals="-6">5000</ifrs-full:Assets>
+  <ifrs-full:Assets contextRef="PriorEnd" unitRef="KRW" decimals="-6">4500</ifrs-full:Assets>
+  <ifrs-full:Equity contextRef="CurEnd" unitRef="KRW" xsi:nil="true"/>
+  <ifrs-full:DisclosureOfSegmentsExplanatory contextRef="CurAcc">부문 정보</ifrs-full:DisclosureOfSegmentsExplanatory>
+</xbrli:xbrl>`;
+
+const LABELS = `<?xml version="1.0" encoding="UTF-8"?>
+<link:linkbase xmlns:link="http://www.xbrl.org/2003/linkbase" xmlns:xlink="http://www.w3.org/1999/xlink">
+  <link:labelLink xlink:type="extended" xlink:role="http://www.xbrl.org/2003/role/link">
+    <link:loc xlink:type="locator" xlink:href="ifrs-full.xsd#ifrs-full_Revenue" xlink:label="loc_Revenue"/>
+    <link:label xlink:type="resource" xlink:label="label_Revenue" xlink:role="http://www.xbrl.org/2003/role/terseLabel">매출</link:label>
+    <link:label xlink:type="resource" xlink:label="label_Revenue" xlink:role="http://www.xbrl.org/2003/role/label">수익(매출액)</link:label>
+    <link:labelArc xlink:type="arc" xlink:from="loc_Revenue" xlink:to="label_Revenue"/>
+    <link:loc xlink:type="locator" xlink:href="ifrs-full.xsd#ifrs-full_Assets" xlink:label="loc_Assets"/>
+    <link:label xlink:type="resource" xlink:label="label_Assets" xlink:role="http://www.xbrl.org/2003/role/label">자산총계</link:label>
+    <link:labelArc xlink:type="arc" xlink:from="loc_Assets" xlink:to="label_Assets"/>
+  </link:labelLink>
+</link:linkbase>`;
+
+const PRESENTATION = `<?xml version="1.0" encoding="UTF-8"?>
+<link:linkbase xmlns:link="http://www.xbrl.org/2003/linkbase" xmlns:xlink="http://www.w3.org/1999/xlink">
+  <link:presentationLink xlink:type="extended" xlink:role="http://dart.fss.or.kr/role/ifrs/dart_2020-06-30_role-D800000">
+    <link:loc xlink:type="locator" xlink:href="ifrs-full.xsd#ifrs-full_Assets" xlink:label="loc_Assets"/>
+  </link:presentationLink>
+  <link:presentationLink xlink:type="extended" xlink:role="http://dart.fss.or.kr/role/ifrs/dart_2020-06-30_role-D210000">
+    <link:loc xlink:type="locator" xlink:href="ifrs-full.xsd#ifrs-full_CurrentAssets" xlink:label="loc_CurrentAssets"/>
+    <link:loc xlink:type="locator" xlink:href="ifrs-full.xsd#ifrs-full_Assets" xlink:label="loc_Assets"/>
+  </link:presentationLink>
+  <link:presentationLink xlink:type="extended" xlink:role="http://dart.fss.or.kr/role/ifrs/dart_2020-06-30_role-D431410">
+    <link:loc xlink:type="locator" xlink:href="ifrs-full.xsd#ifrs-full_Revenue" xlink:label="loc_Revenue"/>
+  </link:presentationLink>
+</link:linkbase>`;
+
+describe('parseXbrlInstance', () => {
+  const facts = parseXbrlInstance(INSTANCE);
+
+  it('parses numeric facts with periods, units and dimensions', () => {
+    const revenue = facts.find(fact => fact.concept === 'ifrs-full_Revenue' && fact.value === 300);
+    expect(revenue).toEqual({
+      concept: 'ifrs-full_Revenue',
+      label: null,
+      value: 300,
+      unit: 'KRW',
+      decimals: '-6',
+      period: { start: '2024-07-01', end: '2024-09-30' },
+      dimensions: { 'ifrs-full_ConsolidatedAndSeparateFinancialStatementsAxis': 'ifrs-full_ConsolidatedMember' }
+    });
+
+    const segment = facts.find(fact => fact.value === 180);
+    expect(segment?.dimensions['ifrs-full_SegmentsAxis']).toBe('dart_DXMember');
+  });
+
+  it('reads divided units and thousands separators', () => {
+    const eps = facts.find(fact => fact.concept === 'ifrs-full_BasicEarningsLossPerShare');
+    expect(eps).toMatchObject({ value: 1234, unit: 'KRW/shares' });
+  });
+
+  it('skips nil and non-numeric facts', () => {
+    expect(facts.some(fact => fact.concept === 'ifrs-full_Equity')).toBe(false);
+    expect(facts.some(fact => fact.concept === 'ifrs-full_DisclosureOfSegmentsExplanatory')).toBe(false);
+    expect(facts).toHaveLength(9);
+  });
+
+  it('returns no facts for documents without an xbrl root', () => {
+    expect(parseXbrlInstance('<root/>')).toEqual([]);
+  });
+});
+
+describe('parseLabelLinkbase', () => {
+  it('prefers standard labels', () => {
+    const labels = parseLabelLinkbase(LABELS);
+    expect(labels.get('ifrs-full_Revenue')).toBe('수익(매출액)');
+    expect(labels.get('ifrs-full_Assets')).toBe('자산총계');
+  });
+});
+
+describe('parsePresentationLinkbase', () => {
+  it('maps role codes to statement divisions, preferring statements over notes', () => {
+    const placements = parsePresentationLinkbase(PRESENTATION);
+    expect(placements.get('ifrs-full_Assets')).toEqual({ division: 'BS', order: 2 });
+    expect(placements.get('ifrs-full_CurrentAssets')).toEqual({ division: 'BS', order: 1 });
+    expect(placements.get('ifrs-full_Revenue')).toEqual({ division: 'CIS', order: 1 });
+  });
+});
+
+describe('factsToAccountItems', () => {
+  const facts = parseXbrlInstance(INSTANCE, parseLabelLinkbase(LABELS));
+  const placements = parsePresentationLinkbase(PRESENTATION);
+
+  it('projects quarterly and cumulative durations onto account rows', () => {
+    const items = factsToAccountItems(facts, 'CFS', placements);
+    const revenue = items.find(item => item.account_id === 'ifrs-full_Revenue');
+    expect(revenue).toMatchObject({
+      sj_div: 'CIS',
+      account_nm: '수익(매출액)',
+      thstrm_amount: '300',
+      thstrm_add_amount: '800',
+      frmtrm_q_amount: '250',
+      frmtrm_add_amount: '700',
+      frmtrm_amount: '700',
+      currency: 'KRW'
+    });
+  });
+
+  it('projects instants onto current and prior period balances', () => {
+    const items = factsToAccountItems(facts, 'CFS', placements);
+    expect(items.find(item => item.account_id === 'ifrs-full_Assets')).toMatchObject({
+      sj_div: 'BS',
+      ord: '2',
+      thstrm_amount: '5000',
+      frmtrm_amount: '4500'
+    });
+  });
+
+  it('uses only facts of the requested basis without other dimensions', () => {
+    const items = factsToAccountItems(facts, 'OFS', placements);
+    expect(items.map(item => item.account_id)).toEqual(['ifrs-full_Revenue']);
+    expect(items[0].thstrm_amount).toBe('120');
+  });
+
+  it('places concepts missing from the presentation linkbase in notes', () => {
+    const items = factsToAccountItems(facts, 'CFS');
+    expect(items.find(item => item.account_id === 'ifrs-full_BasicEarningsLossPerShare')).toMatchObject({
+      sj_div: 'NOTES',
+      account_nm: 'BasicEarningsLossPerShare',
+      ord: '9999'
+    });
+  });
+});
+
+describe('parseXbrlPackage', () => {
+  it('combines the instance, label and presentation files', () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+    const result = parseXbrlPackage({
+      'entity00126380_2024-09-30.xbrl': encode(INSTANCE),
+      'entity00126380_2024-09-30_lab-ko.xml': encode(LABELS),
+      'entity00126380_2024-09-30_pre.xml': encode(PRESENTATION)
+    }, 'CFS');
+
+    expect(result.facts).toHaveLength(9);
+    expect(result.labels.get('ifrs-full_Revenue')).toBe('수익(매출액)');
+    expect(result.items.find(item => item.account_id === 'ifrs-full_Revenue')?.sj_div).toBe('CIS');
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * XBRL Parser
+ *
+ * Parse DART 재무제표 원본 XBRL packages (fnlttXbrl) into facts with contexts
+ * and units, then project them onto DART account rows so XBRL data flows
+ * through the same statement model and account mapper as fnlttSinglAcntAll.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  DARTAccountItem,
+  FinancialStatementBasis,
+  StatementDivision,
+  XbrlFact,
+  XbrlPeriod
+} from '../types';
+
+interface XbrlContext {
+  period: XbrlPeriod;
+  dimensions: Record<string, string>;
+}
+
+const CONSOLIDATION_AXIS = 'ifrs-full_ConsolidatedAndSeparateFinancialStatementsAxis';
+
+const BASIS_MEMBERS: Record<FinancialStatementBasis, string> = {
+  CFS: 'ifrs-full_ConsolidatedMember',
+  OFS: 'ifrs-full_SeparateMember'
+};
+
+// DART 표시 링크베이스 role 코드 (e.g., role-D310000) 첫 자리 → 재무제표 구분
+const ROLE_DIVISIONS: Record<string, StatementDivision> = {
+  '2': 'BS',
+  '3': 'IS',
+  '4': 'CIS',
+  '5': 'CF',
+  '6': 'SCE',
+  '8': 'NOTES'
+};
+
+// 분기(3개월) 기간 판별 기준
+const MAX_QUARTER_DAYS = 100;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (_name, _jpath, _isLeafNode, isAttribute) => !isAttribute
+});
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+// "ifrs-full:Revenue" → "ifrs-full_Revenue" (DART account_id 형식)
+const toConceptId = (qname: string): string => qname.trim().replace(':', '_');
+
+const textOf = (node: any): string =>
+  typeof node === 'string' ? node : String(node?.['#text'] ?? '');
+
+/**
+ * Find child nodes by local name, ignoring namespace prefixes
+ */
+function children(node: any, name: string): any[] {
+  if (!node || typeof node !== 'object') return [];
+  return Object.keys(node)
+    .filter(key => !key.startsWith('@_') && localName(key) === name)
+    .flatMap(key => node[key]);
+}
+
+function daysBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000);
+}
+
+function parseContexts(root: any): Map<string, XbrlContext> {
+  const contexts = new Map<string, XbrlContext>();
+
+  for (const context of children(root, 'context')) {
+    const period = children(context, 'period')[0];
+    const instant = children(period, 'instant')[0];
+    const dimensions: Record<string, string> = {};
+
+    for (const entity of children(context, 'entity')) {
+      for (const segment of children(entity, 'segment')) {
+        for (const member of children(segment, 'explicitMember')) {
+          dimensions[toConceptId(member['@_dimension'] || '')] = toConceptId(textOf(member));
+        }
+        for (const member of children(segment, 'typedMember')) {
+          const value = Object.keys(member)
+            .filter(key => !key.startsWith('@_'))
+            .map(key => textOf(member[key][0]))
+            .join('');
+          dimensions[toConceptId(member['@_dimension'] || '')] = value;
+        }
+      }
+    }
+
+    contexts.set(context['@_id'], {
+      period: instant
+        ? { instant: textOf(instant) }
+        : {
+            start: textOf(children(period, 'startDate')[0]),
+            end: textOf(children(period, 'endDate')[0])
+          },
+      dimensions
+    });
+  }
+
+  return contexts;
+}
+
+function parseUnits(root: any): Map<string, string> {
+  const units = new Map<string, string>();
+
+  for (const unit of children(root, 'unit')) {
+    const measure = (node: any) => localName(textOf(children(node, 'measure')[0]));
+    const divide = children(unit, 'divide')[0];
+    units.set(
+      unit['@_id'],
+      divide
+        ? `${measure(children(divide, 'unitNumerator')[0])}/${measure(children(divide, 'unitDenominator')[0])}`
+        : measure(unit)
+    );
+  }
+
+  return units;
+}
+
+/**
+ * Parse numeric facts from an XBRL instance document
+ * 텍스트 블록 등 비수치(unitRef 없는) 항목과 nil 항목은 제외
+ */
+export function parseXbrlInstance(xml: string, labels: Map<string, string> = new Map()): XbrlFact[] {
+  const document = parser.parse(xml);
+  const root = children(document, 'xbrl')[0];
+  if (!root) return [];
+
+  const contexts = parseContexts(root);
+  const units = parseUnits(root);
+  const facts: XbrlFact[] = [];
+
+  for (const key of Object.keys(root)) {
+    if (key.startsWith('@_') || !key.includes(':')) continue;
+    const concept = toConceptId(key);
+
+    for (const node of root[key]) {
+      if (typeof node !== 'object' || !node['@_unitRef'] || node['@_xsi:nil'] === 'true') continue;
+
+      const context = contexts.get(node['@_contextRef']);
+      const value = Number(textOf(node).replace(/,/g, ''));
+      if (!context || textOf(node) === '' || isNaN(value)) continue;
+
+      facts.push({
+        concept,
+        label: labels.get(concept) ?? null,
+        value,
+        unit: units.get(node['@_unitRef']) ?? null,
+        decimals: node['@_decimals'] ?? null,
+        period: context.period,
+        dimensions: context.dimensions
+      });
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Parse a label linkbase (lab-ko.xml) into concept → label
+ * 표준 라벨(role .../label) 우선, 없으면 처음 나오는 라벨
+ */
+export function parseLabelLinkbase(xml: string): Map<string, string> {
+  const labels = new Map<string, string>();
+  const document = parser.parse(xml);
+
+  for (const linkbase of children(document, 'linkbase')) {
+    for (const link of children(linkbase, 'labelLink')) {
+      const locators = new Map<string, string>();
+      for (const loc of children(link, 'loc')) {
+        const href = String(loc['@_xlink:href'] || '');
+        locators.set(loc['@_xlink:label'], href.slice(href.indexOf('#') + 1));
+      }
+
+      const resources = new Map<string, { text: string; standard: boolean }[]>();
+      for (const label of children(link, 'label')) {
+        const entries = resources.get(label['@_xlink:label']) || [];
+        entries.push({
+          text: textOf(label).trim(),
+          standard: String(label['@_xlink:role'] || '').endsWith('/label')
+        });
+        resources.set(label['@_xlink:label'], entries);
+      }
+
+      for (const arc of children(link, 'labelArc')) {
+        const concept = locators.get(arc['@_xlink:from']);
+        const entries = resources.get(arc['@_xlink:to']);
+        if (!concept || !entries?.length) continue;
+
+        const preferred = entries.find(entry => entry.standard) || entries[0];
+        if (!labels.has(concept) || preferred.standard) {
+          labels.set(concept, preferred.text);
+        }
+      }
+    }
+  }
+
+  return labels;
+}
+
+/**
+ * Parse a presentation linkbase (pre.xml) into concept → division and display order
+ * 재무제표 role이 주석 role보다 우선
+ */
+export function parsePresentationLinkbase(
+  xml: string
+): Map<string, { division: StatementDivision; order: number }> {
+  const placements = new Map<string, { division: StatementDivision; order: number }>();
+  const document = parser.parse(xml);
+
+  for (const linkbase of children(document, 'linkbase')) {
+    for (const link of children(linkbase, 'presentationLink')) {
+      const roleCode = String(link['@_xlink:role'] || '').match(/role-D(\d)\d{5}/)?.[1];
+      const division = roleCode ? ROLE_DIVISIONS[roleCode] : undefined;
+      if (!division) continue;
+
+      children(link, 'loc').forEach((loc, index) => {
+        const href = String(loc['@_xlink:href'] || '');
+        const concept = href.slice(href.indexOf('#') + 1);
+        const existing = placements.get(concept);
+        if (!existing || (existing.division === 'NOTES' && division !== 'NOTES')) {
+          placements.set(concept, { division, order: index + 1 });
+        }
+      });
+    }
+  }
+
+  return placements;
+}
+
+/**
+ * Whether a fact belongs to the requested basis without other dimensions
+ * 연결/별도 축만 있거나 축이 없는 팩트만 계정 행으로 사용
+ */
+function isPrimaryFact(fact: XbrlFact, basis: FinancialStatementBasis): boolean {
+  const axes = Object.keys(fact.dimensions);
+  if (axes.length === 0) return true;
+  return axes.length === 1 && fact.dimensions[CONSOLIDATION_AXIS] === BASIS_MEMBERS[basis];
+}
+
+const shiftYear = (date: string, years: number): string =>
+  `${parseInt(date.slice(0, 4), 10) + years}${date.slice(4)}`;
+
+/**
+ * Project XBRL facts onto DART account rows (fnlttSinglAcntAll 형식)
+ *
+ * - 시점 항목: 당기말 / 직전 시점(전기말) / 그 이전 시점
+ * - 기간 항목: 당기말 종료 기간 중 최단(3개월) = thstrm_amount, 최장(누적) = thstrm_add_amount
+ *              전년 동기 종료 기간 = frmtrm_q_amount / frmtrm_add_amount
+ */
+export function factsToAccountItems(
+  facts: XbrlFact[],
+  basis: FinancialStatementBasis,
+  placements: Map<string, { division: StatementDivision; order: number }> = new Map()
+): DARTAccountItem[] {
+  const primary = facts.filter(fact => isPrimaryFact(fact, basis));
+  const endDates = primary.map(fact => fact.period.instant || fact.period.end || '').filter(Boolean);
+  if (endDates.length === 0) return [];
+
+  const currentEnd = endDates.reduce((max, date) => (date > max ? date : max));
+  const priorEnd = shiftYear(currentEnd, -1);
+  const prePriorEnd = shiftYear(currentEnd, -2);
+
+  const byConcept = new Map<string, XbrlFact[]>();
+  for (const fact of primary) {
+    const list = byConcept.get(fact.concept) || [];
+    list.push(fact);
+    byConcept.set(fact.concept, list);
+  }
+
+  const items: DARTAccountItem[] = [];
+
+  for (const [concept, conceptFacts] of byConcept) {
+    const placement = placements.get(concept);
+    const label = conceptFacts.find(fact => fact.label)?.label || localName(concept.replace('_', ':'));
+    const amount = (fact: XbrlFact | undefined) => (fact ? String(fact.value) : undefined);
+    const item: DARTAccountItem = {
+      sj_div: placement?.division || 'NOTES',
+      account_id: concept,
+      account_nm: label,
+      ord: String(placement?.order ?? 9999),
+      currency: conceptFacts[0].unit?.split('/')[0] || 'KRW'
+    };
+
+    const instants = conceptFacts
+      .filter(fact => fact.period.instant && fact.period.instant <= currentEnd)
+      .sort((a, b) => b.period.instant!.localeCompare(a.period.instant!));
+
+    if (instants.length > 0) {
+      if (instants[0].period.instant !== currentEnd) continue;
+      item.thstrm_amount = amount(instants[0]);
+      item.frmtrm_amount = amount(instants[1]);
+      item.bfefrmtrm_amount = amount(instants[2]);
+    } else {
+      const endingAt = (end: string) => conceptFacts
+        .filter(fact => fact.period.end === end && fact.period.start)
+        .sort((a, b) => daysBetween(a.period.start!, a.period.end!) - daysBetween(b.period.start!, b.period.end!));
+
+      const current = endingAt(currentEnd);
+      if (current.length === 0) continue;
+
+      const prior = endingAt(priorEnd);
+      const prePrior = endingAt(prePriorEnd);
+      const shortest = current[0];
+      const longest = current[current.length - 1];
+      const isQuarterly = daysBetween(shortest.period.start!, shortest.period.end!) <= MAX_QUARTER_DAYS;
+
+      item.thstrm_amount = amount(shortest);
+      if (isQuarterly && longest !== shortest) item.thstrm_add_amount = amount(longest);
+
+      if (prior.length > 0) {
+        item.frmtrm_amount = amount(prior[prior.length - 1]);
+        if (isQuarterly) {
+          item.frmtrm_q_amount = amount(prior[0]);
+          item.frmtrm_add_amount = amount(prior[prior.length - 1]);
+        }
+      }
+      item.bfefrmtrm_amount = amount(prePrior[prePrior.length - 1]);
+    }
+
+    items.push(item);
+  }
+
+  return items;
+}
+
+/**
+ * Parse an unzipped fnlttXbrl package
+ * - *.xbrl: 인스턴스 문서
+ * - *lab-ko.xml: 한국어 라벨 링크베이스
+ * - *pre.xml: 표시 링크베이스 (재무제표 구분/순서)
+ */
+export function parseXbrlPackage(
+  files: Record<string, Uint8Array>,
+  basis: FinancialStatementBasis
+): { facts: XbrlFact[]; items: DARTAccountItem[]; labels: Map<string, string> } {
+  const decoder = new TextDecoder();
+  const names = Object.keys(files);
+  const read = (name: string) => decoder.decode(files[name]);
+
+  const labels = new Map<string, string>();
+  for (const name of names.filter(n => /lab-ko\.xml$/i.test(n))) {
+    for (const [concept, label] of parseLabelLinkbase(read(name))) {
+      labels.set(concept, label);
+    }
+  }
+
+  const placements = new Map<string, { division: StatementDivision; order: number }>();
+  for (const name of names.filter(n => /pre\.xml$/i.test(n))) {
+    for (const [concept, placement] of parsePresentationLinkbase(read(name))) {
+      if (!placements.has(concept)) placements.set(concept, placement);
+    }
+  }
+
+  const instance = names.find(n => /\.xbrl$/i.test(n));
+  const facts = instance ? parseXbrlInstance(read(instance), labels) : [];
+
+  return { facts, items: factsToAccountItems(facts, basis, placements), labels };
+}
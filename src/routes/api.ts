@@ -7,15 +7,77 @@
 
 import { Hono } from 'hono';
 import type { Context, Next } from 'hono';
-import type { Env } from '../types';
-import { createDARTClient } from '../clients/dart-client';
+import type {
+  Env,
+  FinancialStatementBasis,
+  FinancialStatementMode,
+  FinancialPerformanceResponse,
+  FinancialStatement,
+  QuarterPeriod,
+  RatioPercentiles,
+  JobName,
+  JobsResponse,
+  ScreenerRequest,
+  ScreenerResponse,
+  ScreenerSort,
+  CompanyInfo,
+  CompanyDetailsResponse,
+  IndustryCompaniesResponse,
+  CompanyPeriodSummary,
+  CompareCompany,
+  CompareResponse,
+  StatementsResponse,
+  DividendsResponse,
+  OwnershipChange,
+  OwnershipResponse,
+  InsiderTrade,
+  InsiderTradesResponse,
+  ExecutivesResponse,
+  DisclosureSearchParams,
+  DisclosureType,
+  DisclosuresResponse,
+  MarketDisclosuresResponse,
+  Company,
+  Market,
+  MaterialEvent,
+  MaterialEventType,
+  MaterialEventsResponse,
+  DisclosureDocumentResponse,
+  FullFinancialStatements,
+  StatementSource,
+  XbrlFact,
+  SegmentAxis,
+  SegmentsResponse
+} from '../types';
+import { createDARTClient, DARTAPIError, REPORT_CODES } from '../clients/dart-client';
+import { schedulerConfigFromEnv } from '../clients/request-scheduler';
+import { MATERIAL_EVENT_TYPES } from '../clients/dart-events';
 import { createCacheManager, CACHE_TTL, CACHE_KEYS, SWR_CONFIG } from '../cache/cache-manager';
 import { getSearchService } from '../services/search-service';
-import { getLast6Quarters, calculateQoQChanges, processFinancialData } from '../processors/financial-processor';
-import { calculateAllRatios } from '../processors/ratio-calculator';
+import { createCompanyIndexService, toPeerCompany } from '../services/company-index';
+import { createRatioSnapshotService } from '../services/ratio-snapshot';
+import { createFundamentalsService } from '../services/fundamentals';
+import { getJobResults, JOB_NAMES } from '../jobs/scheduled';
+import {
+  calculateQoQChanges,
+  processFinancialData,
+  createQuarterPeriod,
+  getQuarterWindow,
+  getFilingDeadline,
+  YOY_TTM_LOOKBACK_QUARTERS,
+  CAGR_LOOKBACK_QUARTERS
+} from '../processors/financial-processor';
+import { calculateAllRatios, calculateSummaryRatios } from '../processors/ratio-calculator';
+import { classifyIndustry, normalizeIndustryCode } from '../processors/industry-classifier';
+import {
+  compileScreenerExpression,
+  resolveScreenerField,
+  ScreenerExpressionError
+} from '../processors/screener-expression';
+import type { ScreenerPredicate } from '../processors/screener-expression';
 import { scrapeNews } from '../scrapers/news-scraper';
 import { getCurrentPrice, formatStockPrice, getStockData } from '../providers/stock-price-provider';
-import { handleError, ERROR_MESSAGES } from '../utils/error-handler';
+import { handleError, createErrorResponse, ERROR_MESSAGES } from '../utils/error-handler';
 
 const api = new Hono<{ Bindings: Env }>();
 
@@ -105,7 +167,7 @@ api.get('/companies/search', async (c) => {
 api.get('/companies/:corpCode', async (c) => {
   const corpCode = c.req.param('corpCode');
   const cache = createCacheManager(c.env.COMPANY_CACHE);
-  const dartClient = createDARTClient(c.env.DART_API_KEY);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
   
   try {
     const cacheKey = CACHE_KEYS.COMPANY_INFO(corpCode);
@@ -124,10 +186,16 @@ api.get('/companies/:corpCode', async (c) => {
     const companyInfo = await dartClient.getCompanyInfo(corpCode);
     const stockPrice = await getCurrentPrice(companyInfo.stockCode);
     
-    const response = {
+    // 업종 분류 및 같은 업종 상장사 (회사 인덱스는 스케줄 작업이 채우며 여기서는 읽기만)
+    const companyIndex = createCompanyIndexService(cache, dartClient);
+    const peers = await companyIndex.findPeers(corpCode, companyInfo.industry);
+    
+    const response: CompanyDetailsResponse = {
       company: companyInfo,
       stockPrice,
       formattedPrice: formatStockPrice(stockPrice),
+      industry: classifyIndustry(companyInfo.industry),
+      peers,
       lastUpdated: new Date().toISOString()
     };
     
@@ -144,16 +212,87 @@ api.get('/companies/:corpCode', async (c) => {
   }
 });
 
+const DEFAULT_FINANCIAL_QUARTERS = 12;
+const MAX_FINANCIAL_YEARS = 15;
+
+/**
+ * 기간(사업연도/보고서)별 재무 데이터 조회 (기간 단위 캐시)
+ * 제출된 보고서는 바뀌지 않으므로 길게, 제출기한 전 빈 결과는 짧게 캐시
+ * 조회 구간을 늘려도 이미 가져온 기간은 다시 요청하지 않음
+ */
+async function loadPeriodStatements(
+  cache: ReturnType<typeof createCacheManager>,
+  dartClient: ReturnType<typeof createDARTClient>,
+  corpCode: string,
+  period: QuarterPeriod,
+  fs: FinancialStatementMode,
+  industryCode?: string
+): Promise<FinancialStatement[]> {
+  const reportCode = REPORT_CODES[period.quarter];
+  const cacheKey = CACHE_KEYS.FINANCIAL_PERIOD(corpCode, period.year, reportCode, fs);
+  const cached = await cache.get<FinancialStatement[]>(cacheKey);
+  if (cached) return cached;
+  
+  const data = await dartClient.getFinancialStatements(corpCode, period.year, reportCode, fs, industryCode);
+  
+  const today = new Date().toISOString().slice(0, 10);
+  const ttl = data.length > 0
+    ? CACHE_TTL.FINANCIAL_PERIOD_FILED
+    : (today <= getFilingDeadline(period) ? CACHE_TTL.FINANCIAL_PERIOD_PENDING : CACHE_TTL.FINANCIAL_PERIOD_MISSING);
+  await cache.set(cacheKey, data, ttl);
+  
+  return data;
+}
+
+/**
+ * 기업개황 (기업 상세 캐시가 있으면 재사용, 조회 실패 시 null)
+ */
+async function loadCompanyInfo(
+  cache: ReturnType<typeof createCacheManager>,
+  dartClient: ReturnType<typeof createDARTClient>,
+  corpCode: string
+): Promise<CompanyInfo | null> {
+  try {
+    const cached = await cache.get<{ company: CompanyInfo }>(CACHE_KEYS.COMPANY_INFO(corpCode));
+    return cached?.company ?? await dartClient.getCompanyInfo(corpCode);
+  } catch (e) {
+    return null;
+  }
+}
+
 /**
- * Financial performance endpoint - GET /api/companies/{corpCode}/financial
+ * Financial performance endpoint - GET /api/companies/{corpCode}/financial?fs=CFS|OFS|auto&years=&quarters=&cagr=
+ * fs=auto (기본값): 연결재무제표가 없으면 별도재무제표 사용, 응답의 fs에 사용된 기준 표시
+ * years (1~15) 또는 quarters (1~60): 반환할 기간 (기본 12개 분기, quarters 우선)
+ * cagr=true: 3년/5년 CAGR 계산용 이전 분기까지 조회 (기본값은 YoY/TTM용 4개 분기만 추가 조회, CAGR은 null)
+ * 조회에 실패한 분기는 missingPeriods에 표시
  */
 api.get('/companies/:corpCode/financial', async (c) => {
   const corpCode = c.req.param('corpCode');
+  const fsParam = c.req.query('fs') || 'auto';
+  const fs = (fsParam.toLowerCase() === 'auto' ? 'auto' : fsParam.toUpperCase()) as FinancialStatementMode;
+  const yearsParam = c.req.query('years');
+  const quartersParam = c.req.query('quarters');
+  const includeCagr = c.req.query('cagr') === 'true';
+  
+  if (fs !== 'auto' && fs !== 'CFS' && fs !== 'OFS') {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const maxQuarters = quartersParam
+    ? parseInt(quartersParam, 10)
+    : (yearsParam ? parseInt(yearsParam, 10) * 4 : DEFAULT_FINANCIAL_QUARTERS);
+  
+  if (isNaN(maxQuarters) || maxQuarters < 1 || maxQuarters > MAX_FINANCIAL_YEARS * 4) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
   const cache = createCacheManager(c.env.COMPANY_CACHE);
-  const dartClient = createDARTClient(c.env.DART_API_KEY);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
   
   try {
-    const cacheKey = CACHE_KEYS.FINANCIAL(corpCode, new Date().toISOString().split('T')[0]);
+    // 응답은 기간별 캐시를 조합해 만들므로 짧게만 캐시
+    const cacheKey = CACHE_KEYS.FINANCIAL(corpCode, fs, maxQuarters, includeCagr);
     const cached = await cache.get<any>(cacheKey);
     
     if (cached) {
@@ -166,62 +305,75 @@ api.get('/companies/:corpCode/financial', async (c) => {
       return c.json(cached);
     }
 
-    // 최근 6개 분기 + 누적값 계산을 위한 추가 분기 데이터 필요
-    // 예: 2024-Q3 단독값 = 2024-Q3 누적 - 2024-Q2 누적
-    // 따라서 2024-Q1, Q2 데이터도 필요
-    const currentYear = new Date().getFullYear();
-    const statements = [];
+    // 결산월 (비12월 결산법인은 분기 구간/라벨이 달라짐), 업종코드 (금융업 계정 매핑 규칙)
+    // 기업개황 조회 실패 시 12월 결산으로 처리
+    const companyInfo = await loadCompanyInfo(cache, dartClient, corpCode);
+    const fiscalYearEndMonth = companyInfo?.fiscalYearEndMonth || 12;
+    const industryCode = companyInfo?.industry;
     
-    const reportCodes: Record<string, string> = {
-      'Q1': '11013', 'Q2': '11012', 'Q3': '11014', 'Q4': '11011'
-    };
+    // 제출 시점이 지난 최근 분기부터 maxQuarters개 + 가장 오래된 분기의 YoY/TTM용 4개 분기
+    // (cagr=true면 5년 CAGR용 23개 분기)
+    // 분기 단독값은 누적값 차감으로 계산하므로 사업연도 단위로 조회
+    // 예: 2024-Q3 단독값 = 2024-Q3 누적 - 2024-Q2 누적
+    const lookback = includeCagr ? CAGR_LOOKBACK_QUARTERS : YOY_TTM_LOOKBACK_QUARTERS;
+    const periods = getQuarterWindow(maxQuarters, lookback, fiscalYearEndMonth);
     
-    // 최근 4년간 모든 분기 데이터 가져오기 (3개년 연간 실적 + 누적값 계산용)
-    const yearsToFetch = [currentYear - 3, currentYear - 2, currentYear - 1, currentYear];
-    const quartersToFetch = ['Q1', 'Q2', 'Q3', 'Q4'];
-    
-    for (const year of yearsToFetch) {
-      for (const quarter of quartersToFetch) {
-        try {
-          const data = await dartClient.getFinancialStatements(
-            corpCode,
-            year.toString(),
-            reportCodes[quarter]
-          );
-          if (data.length > 0) {
-            statements.push(...data);
-          }
-        } catch (e) {
-          // Skip failed quarters
-        }
-      }
-    }
+    // 기간별 조회는 DART 클라이언트 스케줄러가 동시 요청 수를 제한
+    // 실패한 분기는 제외하고 계산하되 응답에 표시
+    const missingPeriods: string[] = [];
+    const results = await Promise.all(periods.map(period =>
+      loadPeriodStatements(cache, dartClient, corpCode, period, fs, industryCode)
+        .catch(() => {
+          missingPeriods.push(period.label);
+          return [] as FinancialStatement[];
+        })
+    ));
+    const statements = results.flat();
     
-    const processed = processFinancialData(statements);
+    const processed = processFinancialData(statements, fs, fiscalYearEndMonth);
     const qoqData = calculateQoQChanges(processed);
     
-    // 최근 12개 분기 (3년치) 반환
-    const maxQuarters = 12;
     const startIdx = Math.max(0, qoqData.quarters.length - maxQuarters);
+    const labels = new Set(qoqData.quarters.slice(startIdx).map(q => q.label));
+    
+    // 가장 최근 보고서의 계정 매핑 결과 (매칭된 업종 규칙/계정 확인용)
+    const latestStatement = statements
+      .filter(s => s.fsDiv === processed.fs)
+      .reduce<FinancialStatement | null>((latest, s) =>
+        !latest || `${s.year}${s.quarter}` > `${latest.year}${latest.quarter}` ? s : latest, null);
     
     const chartData = qoqData.quarters.slice(startIdx).map((q, i) => ({
-      quarter: `${q.year}-${q.quarter}`,
+      quarter: q.label,
       revenue: qoqData.revenue[startIdx + i]?.value || 0,
       operatingProfit: qoqData.operatingProfit[startIdx + i]?.value || 0,
-      netIncome: qoqData.netIncome[startIdx + i]?.value || 0
+      netIncome: qoqData.netIncome[startIdx + i]?.value || 0,
+      operatingCashFlow: qoqData.operatingCashFlow[startIdx + i]?.value || 0,
+      capex: qoqData.capex[startIdx + i]?.value || 0,
+      freeCashFlow: qoqData.freeCashFlow[startIdx + i]?.value || 0
     }));
     
-    const response = {
+    const response: FinancialPerformanceResponse = {
+      fs: processed.fs,
+      fiscalYearEndMonth,
       quarters: qoqData.quarters.slice(startIdx),
       metrics: {
         revenue: qoqData.revenue.slice(startIdx),
         operatingProfit: qoqData.operatingProfit.slice(startIdx),
-        netIncome: qoqData.netIncome.slice(startIdx)
+        netIncome: qoqData.netIncome.slice(startIdx),
+        operatingCashFlow: qoqData.operatingCashFlow.slice(startIdx),
+        capex: qoqData.capex.slice(startIdx),
+        freeCashFlow: qoqData.freeCashFlow.slice(startIdx)
       },
-      chartData
+      chartData,
+      restatements: processed.restatements.filter(r => labels.has(r.label)),
+      accountMapping: latestStatement?.accountMapping ?? null,
+      missingPeriods: periods.map(p => p.label).filter(label => missingPeriods.includes(label))
     };
     
-    await cache.set(cacheKey, response, CACHE_TTL.FINANCIAL_DATA);
+    // 조회에 실패한 분기가 있으면 다음 요청에서 다시 조회하도록 캐시하지 않음
+    if (missingPeriods.length === 0) {
+      await cache.set(cacheKey, response, CACHE_TTL.FINANCIAL_DATA);
+    }
     
     const etag = generateETag(response);
     setCacheHeaders(c, SWR_CONFIG.FINANCIAL_DATA.staleTime, SWR_CONFIG.FINANCIAL_DATA.maxAge);
@@ -234,13 +386,103 @@ api.get('/companies/:corpCode/financial', async (c) => {
   }
 });
 
+/**
+ * 보고서 구분 파라미터 해석 (Q1~Q4 또는 DART 보고서 코드)
+ */
+function resolveReportCode(report: string | undefined): string | null {
+  if (!report) return REPORT_CODES.Q4;
+  const upper = report.toUpperCase();
+  if (upper in REPORT_CODES) {
+    return REPORT_CODES[upper as keyof typeof REPORT_CODES];
+  }
+  return (Object.values(REPORT_CODES) as string[]).includes(report) ? report : null;
+}
+
+/**
+ * Financial statements endpoint - GET /api/companies/{corpCode}/statements?year=&report=&fs=&source=
+ * 재무상태표/손익계산서/포괄손익계산서/현금흐름표/자본변동표 전체 계정 반환
+ * source=xbrl: XBRL 원본 기반 (주석 항목, 차원별 팩트, 연구개발비·감가상각비 notes 포함)
+ */
+api.get('/companies/:corpCode/statements', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const year = c.req.query('year') || String(new Date().getFullYear() - 1);
+  const reportCode = resolveReportCode(c.req.query('report'));
+  const fs = (c.req.query('fs') || 'CFS').toUpperCase();
+  const source = (c.req.query('source') || 'api').toLowerCase();
+  
+  if (
+    !/^\d{4}$/.test(year) || !reportCode ||
+    (fs !== 'CFS' && fs !== 'OFS') ||
+    (source !== 'api' && source !== 'xbrl')
+  ) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.STATEMENTS(corpCode, year, reportCode, fs, source as StatementSource);
+    const cached = await cache.get<StatementsResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.STATEMENTS.staleTime, SWR_CONFIG.STATEMENTS.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    let statements: FullFinancialStatements & { facts?: XbrlFact[] };
+    
+    if (source === 'xbrl') {
+      statements = await dartClient.getXbrlStatements(
+        corpCode,
+        year,
+        reportCode,
+        fs as FinancialStatementBasis
+      );
+    } else {
+      statements = await dartClient.getFullStatements(
+        corpCode,
+        year,
+        reportCode,
+        fs as FinancialStatementBasis
+      );
+    }
+    
+    const response: StatementsResponse = {
+      ...statements,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.STATEMENTS);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.STATEMENTS.staleTime, SWR_CONFIG.STATEMENTS.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof DARTAPIError && error.statusCode === 404) {
+      return c.json(createErrorResponse('NOT_FOUND', 404), 404);
+    }
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
 /**
  * Financial ratios endpoint - GET /api/companies/{corpCode}/ratios
  * 네이버 증권에서 투자 지표 가져오기 (PER, PBR, ROE, 배당수익률)
+ * percentiles: 업종(KSIC)/시장 내 백분위와 중앙값. 순위 대상은 네이버 값이 아닌
+ * 최근 사업보고서 요약 재무정보 기준 비율이며 각 value와 source로 구분 (스냅샷은 스케줄 작업이 갱신)
  */
 api.get('/companies/:corpCode/ratios', async (c) => {
   const corpCode = c.req.param('corpCode');
-  const dartClient = createDARTClient(c.env.DART_API_KEY);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
   
   try {
     const companyInfo = await dartClient.getCompanyInfo(corpCode);
@@ -265,6 +507,17 @@ api.get('/companies/:corpCode/ratios', async (c) => {
     // 시가총액 계산
     const marketCap = sharesOutstanding > 0 && stockPrice > 0 ? stockPrice * sharesOutstanding : null;
     
+    // 업종/시장 내 백분위 (스냅샷 조회 실패 시에도 비율은 반환)
+    let percentiles: RatioPercentiles | null = null;
+    try {
+      const cache = createCacheManager(c.env.COMPANY_CACHE);
+      const companyIndex = createCompanyIndexService(cache, dartClient);
+      const ratioSnapshot = createRatioSnapshotService(cache, dartClient, companyIndex);
+      percentiles = await ratioSnapshot.getPercentiles(companyInfo, stockData);
+    } catch {
+      percentiles = null;
+    }
+    
     const response = {
       ratios: { 
         per: per > 0 ? per : null, 
@@ -279,6 +532,7 @@ api.get('/companies/:corpCode/ratios', async (c) => {
         debtRatio: debtRatio > 0 ? debtRatio : null,
         currentRatio: currentRatio > 0 ? currentRatio : null
       },
+      percentiles,
       stockPrice,
       marketCap,
       totalShares: sharesOutstanding,
@@ -304,17 +558,450 @@ api.get('/companies/:corpCode/ratios', async (c) => {
   }
 });
 
+/**
+ * Dividends endpoint - GET /api/companies/{corpCode}/dividends?years=5
+ * DART 배당에 관한 사항 기반 연도별 DPS, 배당성향, 배당수익률
+ */
+api.get('/companies/:corpCode/dividends', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const years = parseInt(c.req.query('years') || '5', 10);
+  
+  if (isNaN(years) || years < 1 || years > 15) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.DIVIDENDS(corpCode, years);
+    const cached = await cache.get<DividendsResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.DIVIDENDS.staleTime, SWR_CONFIG.DIVIDENDS.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const history = await dartClient.getDividends(corpCode, years);
+    
+    const response: DividendsResponse = {
+      corpCode,
+      history,
+      total: history.length,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.DIVIDENDS);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.DIVIDENDS.staleTime, SWR_CONFIG.DIVIDENDS.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * Ownership endpoint - GET /api/companies/{corpCode}/ownership
+ * 최대주주 현황(정기보고서) + 5% 대량보유 보고 타임라인
+ */
+api.get('/companies/:corpCode/ownership', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.OWNERSHIP(corpCode);
+    const cached = await cache.get<OwnershipResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.OWNERSHIP.staleTime, SWR_CONFIG.OWNERSHIP.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const [largest, timeline] = await Promise.all([
+      dartClient.getLargestShareholders(corpCode),
+      dartClient.getMajorShareholderReports(corpCode)
+    ]);
+    
+    // 보고자별 최신 보고만 남기고, 5% 미만으로 내려간 보유자는 제외
+    const latestByReporter = new Map<string, OwnershipChange>();
+    for (const change of timeline) {
+      if (!latestByReporter.has(change.reporter)) {
+        latestByReporter.set(change.reporter, change);
+      }
+    }
+    const majorHolders = Array.from(latestByReporter.values())
+      .filter(change => (change.stake ?? 0) >= 5)
+      .sort((a, b) => (b.stake ?? 0) - (a.stake ?? 0));
+    
+    const response: OwnershipResponse = {
+      corpCode,
+      largestShareholders: largest,
+      majorHolders,
+      timeline,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.OWNERSHIP);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.OWNERSHIP.staleTime, SWR_CONFIG.OWNERSHIP.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * 날짜 파라미터 정규화 (YYYY-MM-DD 또는 YYYYMMDD → YYYYMMDD)
+ */
+function normalizeDateParam(value: string | undefined): string | null | undefined {
+  if (!value) return undefined;
+  const compact = value.replace(/-/g, '');
+  return /^\d{8}$/.test(compact) ? compact : null;
+}
+
+/**
+ * Insider trades endpoint - GET /api/companies/{corpCode}/insider-trades?from=&to=&limit=
+ * 임원·주요주주 특정증권등 소유상황보고
+ */
+api.get('/companies/:corpCode/insider-trades', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const from = normalizeDateParam(c.req.query('from'));
+  const to = normalizeDateParam(c.req.query('to'));
+  const limit = parseInt(c.req.query('limit') || '20', 10);
+  
+  if (from === null || to === null || (from && to && from > to) || isNaN(limit) || limit < 1 || limit > 100) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    // 전체 목록을 캐시하고 기간 필터는 캐시된 목록에 적용
+    const cacheKey = CACHE_KEYS.INSIDER_TRADES(corpCode);
+    let trades = await cache.get<InsiderTrade[]>(cacheKey);
+    
+    if (!trades) {
+      trades = await dartClient.getInsiderTrades(corpCode);
+      await cache.set(cacheKey, trades, CACHE_TTL.INSIDER_TRADES);
+    }
+    
+    const filtered = trades
+      .filter(trade => (!from || trade.reportDate >= from) && (!to || trade.reportDate <= to));
+    
+    // total은 기간 내 전체 건수, trades는 최근 limit건
+    const response: InsiderTradesResponse = {
+      trades: filtered.slice(0, limit),
+      total: filtered.length
+    };
+    
+    const etag = generateETag(response);
+    if (handleConditionalRequest(c, etag)) {
+      return c.body(null, 304);
+    }
+    setCacheHeaders(c, SWR_CONFIG.INSIDER_TRADES.staleTime, SWR_CONFIG.INSIDER_TRADES.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * Material events endpoint - GET /api/companies/{corpCode}/events?from=&to=&types=
+ * 주요사항보고서 (유상증자, 전환사채, 자기주식 취득, 합병, 분할) 구조화 데이터
+ * 기간 미지정 시 최근 3년, types는 쉼표 구분 (e.g., capitalIncrease,convertibleBond)
+ */
+api.get('/companies/:corpCode/events', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const fromParam = normalizeDateParam(c.req.query('from'));
+  const toParam = normalizeDateParam(c.req.query('to'));
+  const typesParam = c.req.query('types');
+  const types = typesParam
+    ? typesParam.split(',').map(t => t.trim()).filter(Boolean) as MaterialEventType[]
+    : MATERIAL_EVENT_TYPES;
+  
+  if (
+    fromParam === null || toParam === null ||
+    types.length === 0 || !types.every(t => MATERIAL_EVENT_TYPES.includes(t))
+  ) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const to = toParam || todayKST();
+  const from = fromParam || String(parseInt(to.slice(0, 4), 10) - 3) + to.slice(4);
+  
+  if (from > to) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    // 전체 유형을 캐시하고 유형 필터는 캐시된 목록에 적용
+    const cacheKey = CACHE_KEYS.EVENTS(corpCode, from, to);
+    let events = await cache.get<MaterialEvent[]>(cacheKey);
+    
+    if (!events) {
+      events = await dartClient.getMaterialEvents(corpCode, from, to);
+      await cache.set(cacheKey, events, CACHE_TTL.EVENTS);
+    }
+    
+    const filtered = events.filter(event => types.includes(event.type));
+    
+    const response: MaterialEventsResponse = {
+      corpCode,
+      from,
+      to,
+      events: filtered,
+      total: filtered.length,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    const etag = generateETag(response.events);
+    if (handleConditionalRequest(c, etag)) {
+      return c.body(null, 304);
+    }
+    
+    setCacheHeaders(c, SWR_CONFIG.EVENTS.staleTime, SWR_CONFIG.EVENTS.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * Segments endpoint - GET /api/companies/{corpCode}/segments?year=&report=&fs=&axis=&years=
+ * 사업부문별(axis=business) 또는 지역별(axis=region) 매출·영업이익 (XBRL 영업부문 주석)
+ * years: 사업보고서 기준 조회 연수 (1-6)
+ */
+api.get('/companies/:corpCode/segments', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const year = c.req.query('year') || String(new Date().getFullYear() - 1);
+  const reportCode = resolveReportCode(c.req.query('report'));
+  const fs = (c.req.query('fs') || 'CFS').toUpperCase();
+  const axis = (c.req.query('axis') || 'business').toLowerCase();
+  const years = parseInt(c.req.query('years') || '2', 10);
+  
+  if (
+    !/^\d{4}$/.test(year) || !reportCode ||
+    (fs !== 'CFS' && fs !== 'OFS') ||
+    (axis !== 'business' && axis !== 'region') ||
+    isNaN(years) || years < 1 || years > 6
+  ) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.SEGMENTS(corpCode, year, reportCode, fs, axis, years);
+    const cached = await cache.get<SegmentsResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.SEGMENTS.staleTime, SWR_CONFIG.SEGMENTS.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const result = await dartClient.getSegments(
+      corpCode,
+      year,
+      reportCode,
+      fs as FinancialStatementBasis,
+      axis as SegmentAxis,
+      years
+    );
+    
+    const response: SegmentsResponse = {
+      corpCode,
+      axis: axis as SegmentAxis,
+      fs: result.fs,
+      year,
+      reportCode,
+      rceptNo: result.rceptNo,
+      periods: result.periods,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.SEGMENTS);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.SEGMENTS.staleTime, SWR_CONFIG.SEGMENTS.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof DARTAPIError && error.statusCode === 404) {
+      return c.json(createErrorResponse('NOT_FOUND', 404), 404);
+    }
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * Executives endpoint - GET /api/companies/{corpCode}/executives?year=
+ * 임원 현황(이사회 구성, 직위, 재직기간) + 5억원 이상 개별 보수
+ */
+api.get('/companies/:corpCode/executives', async (c) => {
+  const corpCode = c.req.param('corpCode');
+  const year = c.req.query('year');
+  
+  if (year && !/^\d{4}$/.test(year)) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.EXECUTIVES(corpCode, year || 'latest');
+    const cached = await cache.get<ExecutivesResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.EXECUTIVES.staleTime, SWR_CONFIG.EXECUTIVES.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const [roster, compensation] = await Promise.all([
+      dartClient.getExecutives(corpCode, year),
+      dartClient.getExecutiveCompensation(corpCode, year)
+    ]);
+    
+    // 개별 보수 공시 대상자는 이름으로 매칭
+    const payByName = new Map(compensation.individuals.map(p => [p.name, p.totalPay]));
+    const executives = roster.executives.map(e => ({
+      ...e,
+      compensation: payByName.get(e.name) ?? null
+    }));
+    
+    const response: ExecutivesResponse = {
+      corpCode,
+      roster: { year: roster.year, reportCode: roster.reportCode },
+      board: executives.filter(e => e.isRegistered),
+      executives,
+      compensation,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.EXECUTIVES);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.EXECUTIVES.staleTime, SWR_CONFIG.EXECUTIVES.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+const DISCLOSURE_TYPES: DisclosureType[] = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+
+/**
+ * Parse disclosure search query params
+ * 검색 파라미터가 하나도 없으면 undefined (최근 정기공시 요약 모드)
+ */
+function parseDisclosureSearch(
+  query: Record<string, string>
+): DisclosureSearchParams | null | undefined {
+  const keys = ['type', 'detailType', 'from', 'to', 'page', 'pageSize', 'finalOnly'];
+  if (!keys.some(key => query[key] !== undefined)) return undefined;
+  
+  const type = query.type?.toUpperCase();
+  const detailType = query.detailType?.toUpperCase();
+  const from = normalizeDateParam(query.from);
+  const to = normalizeDateParam(query.to);
+  const page = parseInt(query.page || '1', 10);
+  const pageSize = parseInt(query.pageSize || '10', 10);
+  
+  if (
+    (type && !DISCLOSURE_TYPES.includes(type as DisclosureType)) ||
+    (detailType && !/^[A-J]\d{3}$/.test(detailType)) ||
+    (type && detailType && !detailType.startsWith(type)) ||
+    from === null || to === null ||
+    (from && to && from > to) ||
+    isNaN(page) || page < 1 ||
+    isNaN(pageSize) || pageSize < 1 || pageSize > 100
+  ) {
+    return null;
+  }
+  
+  return {
+    type: type as DisclosureType | undefined,
+    detailType,
+    from,
+    to,
+    page,
+    pageSize,
+    finalOnly: query.finalOnly === 'true' || query.finalOnly === 'Y'
+  };
+}
+
 /**
  * Disclosures endpoint - GET /api/companies/{corpCode}/disclosures
+ * ?type=&detailType=&from=&to=&page=&pageSize=&finalOnly=
+ * 파라미터 미지정 시 최근 정기공시 5건 (기간별 최신 보고서만)
  */
 api.get('/companies/:corpCode/disclosures', async (c) => {
   const corpCode = c.req.param('corpCode');
+  const search = parseDisclosureSearch(c.req.query());
+  
+  if (search === null) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
   const cache = createCacheManager(c.env.COMPANY_CACHE);
-  const dartClient = createDARTClient(c.env.DART_API_KEY);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
   
   try {
-    const cacheKey = CACHE_KEYS.DISCLOSURES(corpCode);
-    const cached = await cache.get<any>(cacheKey);
+    const cacheKey = CACHE_KEYS.DISCLOSURES(
+      corpCode,
+      search
+        ? [
+            search.type || '-', search.detailType || '-', search.from || '-', search.to || '-',
+            search.page, search.pageSize, search.finalOnly ? 'final' : 'all'
+          ].join(':')
+        : undefined
+    );
+    const cached = await cache.get<DisclosuresResponse>(cacheKey);
     
     if (cached) {
       const etag = generateETag(cached);
@@ -326,17 +1013,20 @@ api.get('/companies/:corpCode/disclosures', async (c) => {
       return c.json(cached);
     }
     
-    const disclosures = await dartClient.getDisclosures(corpCode, 5);
-    const sorted = disclosures.sort((a, b) => b.rcept_dt.localeCompare(a.rcept_dt));
+    const result = search
+      ? await dartClient.searchDisclosures(corpCode, search)
+      : { disclosures: await dartClient.getDisclosures(corpCode, 5), paging: undefined };
+    const sorted = result.disclosures.sort((a, b) => b.rcept_dt.localeCompare(a.rcept_dt));
     
     const withUrls = sorted.map(d => ({
       ...d,
       url: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${d.rcept_no}`
     }));
     
-    const response = {
+    const response: DisclosuresResponse = {
       disclosures: withUrls,
-      total: withUrls.length
+      total: withUrls.length,
+      ...(result.paging && { paging: result.paging })
     };
     
     await cache.set(cacheKey, response, CACHE_TTL.DISCLOSURES);
@@ -352,13 +1042,489 @@ api.get('/companies/:corpCode/disclosures', async (c) => {
   }
 });
 
+const MARKETS: Market[] = ['KOSPI', 'KOSDAQ', 'KONEX'];
+
+// 회사 미지정 공시검색은 DART에서 최대 3개월까지만 허용
+const MAX_MARKET_FEED_DAYS = 92;
+
+/**
+ * Today's date in KST (YYYYMMDD)
+ */
+function todayKST(): string {
+  return new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function daysBetween(from: string, to: string): number {
+  const toDate = (value: string) =>
+    Date.UTC(+value.slice(0, 4), +value.slice(4, 6) - 1, +value.slice(6, 8));
+  return (toDate(to) - toDate(from)) / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Market-wide disclosure feed - GET /api/disclosures/latest
+ * ?from=&to=&market=&type=&detailType=&page=&pageSize=&finalOnly=
+ * 기간 미지정 시 오늘(KST) 접수된 전체 회사 공시
+ */
+api.get('/disclosures/latest', async (c) => {
+  const query = c.req.query();
+  const parsed = parseDisclosureSearch(query);
+  const market = query.market?.toUpperCase() as Market | undefined;
+  
+  if (parsed === null || (market && !MARKETS.includes(market))) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const search = parsed ?? {};
+  const to = search.to || todayKST();
+  const from = search.from || to;
+  const window = daysBetween(from, to);
+  
+  if (window < 0 || window > MAX_MARKET_FEED_DAYS) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const params = { ...search, from, to, market };
+    const cacheKey = CACHE_KEYS.LATEST_DISCLOSURES([
+      from, to, market || '-', search.type || '-', search.detailType || '-',
+      search.page ?? 1, search.pageSize ?? 10, search.finalOnly ? 'final' : 'all'
+    ].join(':'));
+    const cached = await cache.get<MarketDisclosuresResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.LATEST_DISCLOSURES.staleTime, SWR_CONFIG.LATEST_DISCLOSURES.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const { disclosures, paging } = await dartClient.getLatestDisclosures(params);
+    
+    // 검색 인덱스의 종목코드/시장 정보를 우선 사용
+    const searchService = getSearchService();
+    const joined = disclosures.map(d => {
+      const company = searchService.getCompanyByCode(d.corpCode);
+      return {
+        ...d,
+        stockCode: company?.stockCode || d.stockCode,
+        market: company?.market || d.market,
+        url: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${d.rcept_no}`
+      };
+    });
+    
+    const response: MarketDisclosuresResponse = {
+      from,
+      to,
+      disclosures: joined,
+      total: joined.length,
+      paging,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.LATEST_DISCLOSURES);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.LATEST_DISCLOSURES.staleTime, SWR_CONFIG.LATEST_DISCLOSURES.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * Disclosure document endpoint - GET /api/disclosures/{rceptNo}/document
+ * 공시서류원본(document.xml ZIP)을 섹션·문단·표 단위 JSON으로 변환
+ * 접수된 공시 원문은 변경되지 않으므로 접수번호 기준 장기 캐시
+ */
+api.get('/disclosures/:rceptNo/document', async (c) => {
+  const rceptNo = c.req.param('rceptNo');
+  
+  if (!/^\d{14}$/.test(rceptNo)) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.DOCUMENT(rceptNo);
+    const cached = await cache.get<DisclosureDocumentResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.DOCUMENT.staleTime, SWR_CONFIG.DOCUMENT.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const files = await dartClient.getDisclosureDocument(rceptNo);
+    
+    const response: DisclosureDocumentResponse = {
+      rceptNo,
+      url: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${rceptNo}`,
+      files,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.DOCUMENT);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.DOCUMENT.staleTime, SWR_CONFIG.DOCUMENT.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    if (error instanceof DARTAPIError && error.statusCode === 404) {
+      return c.json(createErrorResponse('NOT_FOUND', 404), 404);
+    }
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+const DEFAULT_INDUSTRY_LIMIT = 50;
+const MAX_INDUSTRY_LIMIT = 200;
+
+/**
+ * Industry companies endpoint - GET /api/industries/{code}/companies?limit=50
+ * code: KSIC 대분류 알파벳(A-U) 또는 2~5자리 업종코드 (하위 분류 포함)
+ * 회사 인덱스는 스케줄 작업이 점진적으로 채우므로 coverage로 업종코드 조회 비율을 함께 반환
+ */
+api.get('/industries/:code/companies', async (c) => {
+  const code = normalizeIndustryCode(c.req.param('code'));
+  const limitParam = c.req.query('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_INDUSTRY_LIMIT;
+  
+  const industry = classifyIndustry(code);
+  if (!code || !industry) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  if (isNaN(limit) || limit < 1 || limit > MAX_INDUSTRY_LIMIT) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const companyIndex = createCompanyIndexService(cache, dartClient);
+    const entries = await companyIndex.getEntries();
+    const companies = await companyIndex.findByIndustry(code);
+    
+    const response: IndustryCompaniesResponse = {
+      industry,
+      companies: companies.slice(0, limit).map(toPeerCompany),
+      total: companies.length,
+      coverage: {
+        indexed: entries.filter(entry => entry.industryUpdatedAt !== null).length,
+        total: entries.length
+      },
+      lastUpdated: new Date().toISOString()
+    };
+    
+    const etag = generateETag(response.companies);
+    if (handleConditionalRequest(c, etag)) {
+      return c.body(null, 304);
+    }
+    setCacheHeaders(c, SWR_CONFIG.INDUSTRY.staleTime, SWR_CONFIG.INDUSTRY.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+const DEFAULT_SCREENER_PAGE_SIZE = 50;
+const MAX_SCREENER_PAGE_SIZE = 200;
+const DEFAULT_SCREENER_SORT: ScreenerSort = { field: 'marketCap', order: 'desc' };
+
+/**
+ * Stock screener endpoint - POST /api/screener
+ * body: { filter: "per < 10 AND roe > 15 AND market = KOSDAQ", sort: { field: "roe", order: "desc" }, page: 1, pageSize: 50 }
+ * 스케줄 작업이 만든 펀더멘털 테이블(최근 사업보고서 + 주가)에서 조건식을 평가
+ * 정렬 필드 값이 없는 회사는 정렬 방향과 관계없이 뒤로
+ */
+api.post('/screener', async (c) => {
+  let body: ScreenerRequest;
+  try {
+    body = await c.req.json<ScreenerRequest>();
+  } catch {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  // null, 배열, 원시값 본문은 거부
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const filter = body.filter ?? '';
+  const sortField = body.sort ? resolveScreenerField(String(body.sort.field ?? '')) : DEFAULT_SCREENER_SORT.field;
+  const sortOrder = body.sort?.order ?? 'desc';
+  const page = body.page ?? 1;
+  const pageSize = body.pageSize ?? DEFAULT_SCREENER_PAGE_SIZE;
+  
+  if (typeof filter !== 'string' || !sortField || (sortOrder !== 'asc' && sortOrder !== 'desc')) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_SCREENER_PAGE_SIZE) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  let predicate: ScreenerPredicate;
+  try {
+    predicate = compileScreenerExpression(filter);
+  } catch (error) {
+    if (error instanceof ScreenerExpressionError) {
+      return c.json({ ...createErrorResponse('VALIDATION_ERROR', 400), message: error.message }, 400);
+    }
+    throw error;
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const companyIndex = createCompanyIndexService(cache, dartClient);
+    const rows = await createFundamentalsService(cache, dartClient, companyIndex).getRows();
+    
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    const matched = rows.filter(predicate).sort((a, b) => {
+      const x = a[sortField];
+      const y = b[sortField];
+      if (x === null || y === null) return (x === null ? 1 : 0) - (y === null ? 1 : 0);
+      return (x < y ? -1 : x > y ? 1 : 0) * direction;
+    });
+    
+    const sort: ScreenerSort = { field: sortField, order: sortOrder };
+    const response: ScreenerResponse = {
+      results: matched.slice((page - 1) * pageSize, page * pageSize),
+      total: matched.length,
+      page,
+      pageSize,
+      totalPages: Math.ceil(matched.length / pageSize),
+      filter,
+      sort,
+      coverage: {
+        screened: rows.length,
+        total: (await companyIndex.getEntries()).length
+      },
+      tableUpdatedAt: rows.reduce<string | null>(
+        (latest, row) => (latest === null || row.updatedAt > latest ? row.updatedAt : latest),
+        null
+      )
+    };
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+const MAX_COMPARE_COMPANIES = 10;
+const DEFAULT_COMPARE_QUARTERS = 8;
+const MAX_COMPARE_QUARTERS = 20;
+
+/**
+ * 분기 종료일이 속한 12월 결산 기준 분기
+ */
+function toCalendarQuarter(period: QuarterPeriod): QuarterPeriod {
+  if (period.fiscalYearEndMonth === 12) return period;
+  const month = parseInt(period.endDate.slice(5, 7), 10);
+  return createQuarterPeriod(parseInt(period.endDate.slice(0, 4), 10), Math.ceil(month / 3) as 1|2|3|4);
+}
+
+/**
+ * Multi-company comparison endpoint - GET /api/compare?corpCodes=a,b,c&fs=auto&quarters=8
+ * 다중회사 주요계정(fnlttMultiAcnt)으로 기간당 한 번의 호출로 모든 회사를 조회하고
+ * 같은 분기 축에 맞춰 매출액/영업이익/당기순이익과 재무비율을 나란히 반환
+ */
+api.get('/compare', async (c) => {
+  const corpCodes = Array.from(new Set(
+    (c.req.query('corpCodes') || '').split(',').map(code => code.trim()).filter(Boolean)
+  ));
+  const fsParam = c.req.query('fs') || 'auto';
+  const fs = (fsParam.toLowerCase() === 'auto' ? 'auto' : fsParam.toUpperCase()) as FinancialStatementMode;
+  const maxQuarters = parseInt(c.req.query('quarters') || String(DEFAULT_COMPARE_QUARTERS), 10);
+  
+  if (
+    corpCodes.length < 2 || corpCodes.length > MAX_COMPARE_COMPANIES ||
+    corpCodes.some(code => !/^\d{8}$/.test(code)) ||
+    (fs !== 'auto' && fs !== 'CFS' && fs !== 'OFS') ||
+    isNaN(maxQuarters) || maxQuarters < 1 || maxQuarters > MAX_COMPARE_QUARTERS
+  ) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
+  
+  try {
+    const cacheKey = CACHE_KEYS.COMPARE(corpCodes, fs, maxQuarters);
+    const cached = await cache.get<CompareResponse>(cacheKey);
+    
+    if (cached) {
+      const etag = generateETag(cached);
+      if (handleConditionalRequest(c, etag)) {
+        return c.body(null, 304);
+      }
+      setCacheHeaders(c, SWR_CONFIG.COMPARE.staleTime, SWR_CONFIG.COMPARE.maxAge);
+      c.header('ETag', etag);
+      return c.json(cached);
+    }
+    
+    const searchService = getSearchService();
+    const companies = corpCodes.map(corpCode => {
+      const company = searchService.getCompanyByCode(corpCode);
+      return { corpCode, corpName: company?.corpName || corpCode, stockCode: company?.stockCode || '' };
+    });
+    const stockCodes = Object.fromEntries(companies.map(company => [company.corpCode, company.stockCode]));
+    
+    // 회사별 결산월 기준 조회 구간의 합집합 (가장 오래된 분기의 YoY/TTM용 4개 분기 추가 조회)
+    const fiscalYearEndMonths = await Promise.all(corpCodes.map(async corpCode =>
+      (await loadCompanyInfo(cache, dartClient, corpCode))?.fiscalYearEndMonth || 12
+    ));
+    const periodsByKey = new Map<string, QuarterPeriod>();
+    for (const month of new Set(fiscalYearEndMonths)) {
+      for (const period of getQuarterWindow(maxQuarters, YOY_TTM_LOOKBACK_QUARTERS, month)) {
+        periodsByKey.set(`${period.year}-${period.quarter}`, period);
+      }
+    }
+    const periods = Array.from(periodsByKey.values());
+    
+    const summaries = await Promise.all(periods.map(period =>
+      dartClient.getMultiCompanySummaries(
+        corpCodes, period.year, REPORT_CODES[period.quarter], fs, stockCodes
+      ).catch(() => ({} as Record<string, CompanyPeriodSummary>))  // Skip failed periods
+    ));
+    
+    const processedByCompany = companies.map((company, index) => {
+      const entries = summaries.map(byCorp => byCorp[company.corpCode]).filter(Boolean);
+      const processed = processFinancialData(entries.map(entry => entry.statement), fs, fiscalYearEndMonths[index]);
+      return {
+        company,
+        fiscalYearEndMonth: fiscalYearEndMonths[index],
+        processed,
+        changes: calculateQoQChanges(processed),
+        balance: entries.length > 0 ? entries[entries.length - 1].balance : null
+      };
+    });
+    
+    // 모든 회사의 분기를 합친 12월 결산 기준 공통 축 (최근 maxQuarters개)
+    // 비12월 결산법인의 분기는 종료일이 속한 달력 분기에 배치
+    const axis = new Map<string, QuarterPeriod>();
+    for (const { processed } of processedByCompany) {
+      for (const quarter of processed.quarters) {
+        const calendarQuarter = toCalendarQuarter(quarter);
+        axis.set(calendarQuarter.label, calendarQuarter);
+      }
+    }
+    const axisPeriods = Array.from(axis.values())
+      .sort((a, b) => a.endDate.localeCompare(b.endDate))
+      .slice(-maxQuarters);
+    
+    const stockData = await Promise.all(companies.map(company =>
+      company.stockCode ? getStockData(company.stockCode).catch(() => null) : Promise.resolve(null)
+    ));
+    
+    const compared: CompareCompany[] = processedByCompany.map(({ company, fiscalYearEndMonth, processed, changes, balance }, index) => {
+      const align = (values: number[]) => {
+        const byLabel = new Map(processed.quarters.map((quarter, i) => [toCalendarQuarter(quarter).label, values[i]]));
+        return axisPeriods.map(period => byLabel.get(period.label) ?? null);
+      };
+      const latestTtm = (metric: 'revenue' | 'operatingProfit' | 'netIncome') =>
+        changes[metric].length > 0 ? changes[metric][changes[metric].length - 1].ttm : null;
+      
+      const ttm = {
+        revenue: latestTtm('revenue'),
+        operatingProfit: latestTtm('operatingProfit'),
+        netIncome: latestTtm('netIncome')
+      };
+      
+      const stock = stockData[index];
+      const stockPrice = stock && stock.price > 0 ? stock.price : null;
+      const totalShares = stock?.sharesOutstanding ?? 0;
+      
+      // 비율은 TTM 손익과 최근 재무상태표 기준
+      const ratios = calculateSummaryRatios(balance, ttm, stockPrice, totalShares);
+      
+      return {
+        ...company,
+        fiscalYearEndMonth,
+        fs: processed.fs,
+        revenue: align(processed.revenue),
+        operatingProfit: align(processed.operatingProfit),
+        netIncome: align(processed.netIncome),
+        ttm,
+        balance,
+        stockPrice,
+        ratios
+      };
+    });
+    
+    const response: CompareResponse = {
+      periods: axisPeriods,
+      companies: compared,
+      lastUpdated: new Date().toISOString()
+    };
+    
+    await cache.set(cacheKey, response, CACHE_TTL.COMPARE);
+    
+    const etag = generateETag(response);
+    setCacheHeaders(c, SWR_CONFIG.COMPARE.staleTime, SWR_CONFIG.COMPARE.maxAge);
+    c.header('ETag', etag);
+    
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * Scheduled job results endpoint - GET /api/jobs?job=company-list|cache-warm|company-index|ratio-snapshot|fundamentals
+ * 크론 작업의 최근 실행 기록 (최신순)
+ */
+api.get('/jobs', async (c) => {
+  const job = c.req.query('job') as JobName | undefined;
+  if (job && !JOB_NAMES.includes(job)) {
+    return c.json(createErrorResponse('VALIDATION_ERROR', 400), 400);
+  }
+  
+  const cache = createCacheManager(c.env.COMPANY_CACHE);
+  
+  try {
+    const jobs = await getJobResults(cache, job);
+    const response: JobsResponse = { jobs, total: jobs.length };
+    
+    c.header('Cache-Control', 'no-store');
+    return c.json(response);
+  } catch (error) {
+    const errorResponse = handleError(error);
+    return c.json(errorResponse, 500);
+  }
+});
+
 /**
  * News endpoint - GET /api/companies/{corpCode}/news
  */
 api.get('/companies/:corpCode/news', async (c) => {
   const corpCode = c.req.param('corpCode');
   const cache = createCacheManager(c.env.COMPANY_CACHE);
-  const dartClient = createDARTClient(c.env.DART_API_KEY);
+  const dartClient = createDARTClient(c.env.DART_API_KEY, schedulerConfigFromEnv(c.env));
   
   try {
     const cacheKey = CACHE_KEYS.NEWS(corpCode);
@@ -0,0 +1,196 @@
+/**
+ * Company Index Service
+ *
+ * KV-backed index of listed companies with KSIC industry codes and latest
+ * annual revenue. 회사 목록(검색 인덱스)을 기준으로 업종코드는 기업개황(company.json),
+ * 매출액은 다중회사 주요계정(fnlttMultiAcnt, 호출당 최대 100개사)으로 조금씩 보강.
+ */
+
+import type { CompanyIndexEntry, PeerCompany } from '../types';
+import type { ICacheManager } from '../cache/cache-manager';
+import { CACHE_KEYS, CACHE_TTL } from '../cache/cache-manager';
+import type { DARTClient } from '../clients/dart-client';
+import { REPORT_CODES } from '../clients/dart-client';
+import { getSearchService } from './search-service';
+import { matchesIndustry } from '../processors/industry-classifier';
+
+export const MULTI_ACCOUNT_BATCH = 100;  // fnlttMultiAcnt 호출당 최대 회사 수
+
+export interface RefreshOptions {
+  industryBatch: number;  // 기업개황 조회 회사 수
+  revenueBatch: number;   // 다중회사 주요계정 호출 수
+}
+
+const DEFAULT_REFRESH_OPTIONS: RefreshOptions = {
+  industryBatch: 20,
+  revenueBatch: 2
+};
+
+/**
+ * Latest fiscal year whose annual reports should be filed (사업보고서 제출기한 3월 말)
+ */
+export function latestAnnualYear(now: Date = new Date()): string {
+  const year = now.getFullYear();
+  return String(now.getMonth() >= 3 ? year - 1 : year - 2);
+}
+
+/**
+ * Rank by revenue (매출액 없는 회사는 뒤로)
+ */
+function byRevenue(a: CompanyIndexEntry, b: CompanyIndexEntry): number {
+  return (b.revenue ?? -Infinity) - (a.revenue ?? -Infinity) || a.corpName.localeCompare(b.corpName);
+}
+
+export function toPeerCompany(entry: CompanyIndexEntry): PeerCompany {
+  return {
+    corpCode: entry.corpCode,
+    corpName: entry.corpName,
+    stockCode: entry.stockCode,
+    industryCode: entry.industryCode,
+    revenue: entry.revenue,
+    revenueYear: entry.revenueYear
+  };
+}
+
+export class CompanyIndexService {
+  private cache: ICacheManager;
+  private dartClient: DARTClient;
+  private entries: Map<string, CompanyIndexEntry> | null;
+  private dirty: boolean;
+
+  constructor(cache: ICacheManager, dartClient: DARTClient) {
+    this.cache = cache;
+    this.dartClient = dartClient;
+    this.entries = null;
+    this.dirty = false;
+  }
+
+  /**
+   * Load the stored index, adding companies from the search index that are not yet stored
+   */
+  async load(): Promise<Map<string, CompanyIndexEntry>> {
+    if (this.entries) return this.entries;
+
+    const stored = await this.cache.get<CompanyIndexEntry[]>(CACHE_KEYS.COMPANY_INDEX) || [];
+    const entries = new Map(stored.map(entry => [entry.corpCode, entry]));
+
+    for (const company of getSearchService().getCompanies()) {
+      if (!company.stockCode || entries.has(company.corpCode)) continue;
+      entries.set(company.corpCode, {
+        ...company,
+        industryCode: null,
+        industryUpdatedAt: null,
+        revenue: null,
+        revenueYear: null
+      });
+      this.dirty = true;
+    }
+
+    this.entries = entries;
+    return entries;
+  }
+
+  async getEntries(): Promise<CompanyIndexEntry[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async save(): Promise<void> {
+    if (!this.entries || !this.dirty) return;
+    await this.cache.set(CACHE_KEYS.COMPANY_INDEX, Array.from(this.entries.values()), CACHE_TTL.COMPANY_INDEX);
+    this.dirty = false;
+  }
+
+  /**
+   * Companies under an industry code (prefix or KSIC section letter), ranked by revenue
+   */
+  async findByIndustry(industryCode: string): Promise<CompanyIndexEntry[]> {
+    const entries = await this.getEntries();
+    return entries
+      .filter(entry => matchesIndustry(entry.industryCode, industryCode))
+      .sort(byRevenue);
+  }
+
+  /**
+   * Same-industry companies ranked by revenue
+   * 업종코드는 기업개황 값을 받아 사용 (인덱스에 아직 업종코드가 없는 회사도 조회 가능)
+   * 같은 업종코드 회사가 부족하면 상위 분류(소분류 → 중분류)로 넓혀서 조회
+   */
+  async findPeers(
+    corpCode: string,
+    industryCode: string | null | undefined,
+    limit: number = 10,
+    minPeers: number = 3
+  ): Promise<PeerCompany[]> {
+    const code = industryCode?.trim();
+    if (!code) return [];
+
+    let peers: CompanyIndexEntry[] = [];
+    for (let length = code.length; length >= 2; length--) {
+      peers = (await this.findByIndustry(code.slice(0, length)))
+        .filter(peer => peer.corpCode !== corpCode);
+      if (peers.length >= minPeers) break;
+    }
+
+    return peers.slice(0, limit).map(toPeerCompany);
+  }
+
+  /**
+   * Fill missing industry codes and revenues in small batches
+   */
+  async refresh(options: Partial<RefreshOptions> = {}): Promise<{ industries: number; revenues: number }> {
+    const { industryBatch, revenueBatch } = { ...DEFAULT_REFRESH_OPTIONS, ...options };
+    const entries = await this.getEntries();
+
+    // 1. 업종코드/시장 (기업개황)
+    const missingIndustry = entries.filter(entry => !entry.industryUpdatedAt).slice(0, industryBatch);
+    const infos = await Promise.all(missingIndustry.map(entry =>
+      this.dartClient.getCompanyInfo(entry.corpCode).catch(() => null)
+    ));
+    let industries = 0;
+    missingIndustry.forEach((entry, index) => {
+      const info = infos[index];
+      if (!info) return;
+      entry.industryCode = info.industry || null;
+      entry.market = info.market;
+      entry.industryUpdatedAt = new Date().toISOString();
+      industries++;
+    });
+
+    // 2. 최근 사업보고서 매출액 (업종코드가 있는 회사만)
+    const year = latestAnnualYear();
+    const missingRevenue = entries
+      .filter(entry => entry.industryCode && entry.revenueYear !== year)
+      .slice(0, revenueBatch * MULTI_ACCOUNT_BATCH);
+    let revenues = 0;
+
+    for (let offset = 0; offset < missingRevenue.length; offset += MULTI_ACCOUNT_BATCH) {
+      const batch = missingRevenue.slice(offset, offset + MULTI_ACCOUNT_BATCH);
+      try {
+        const summaries = await this.dartClient.getMultiCompanySummaries(
+          batch.map(entry => entry.corpCode),
+          year,
+          REPORT_CODES.Q4,
+          'auto',
+          Object.fromEntries(batch.map(entry => [entry.corpCode, entry.stockCode]))
+        );
+        for (const entry of batch) {
+          const summary = summaries[entry.corpCode];
+          entry.revenue = summary && summary.statement.revenue !== 0 ? summary.statement.revenue : null;
+          entry.revenueYear = year;
+          revenues++;
+        }
+      } catch {
+        // 다음 갱신에서 재시도
+      }
+    }
+
+    if (industries > 0 || revenues > 0) this.dirty = true;
+    await this.save();
+
+    return { industries, revenues };
+  }
+}
+
+export function createCompanyIndexService(cache: ICacheManager, dartClient: DARTClient): CompanyIndexService {
+  return new CompanyIndexService(cache, dartClient);
+}
@@ -0,0 +1,172 @@
+/**
+ * Fundamentals Service
+ *
+ * KV-backed fundamentals table for the screener: one row per indexed company
+ * with the latest annual report figures (fnlttMultiAcnt), year-over-year growth
+ * and price-based ratios. 스케줄 작업이 오래된 회사부터 나눠서 갱신.
+ */
+
+import type { CompanyIndexEntry, FundamentalsRow } from '../types';
+import type { ICacheManager } from '../cache/cache-manager';
+import { CACHE_KEYS, CACHE_TTL } from '../cache/cache-manager';
+import type { DARTClient } from '../clients/dart-client';
+import { REPORT_CODES } from '../clients/dart-client';
+import { getStockData } from '../providers/stock-price-provider';
+import { calculateSummaryRatios } from '../processors/ratio-calculator';
+import { percentChange } from '../processors/financial-processor';
+import type { CompanyIndexService } from './company-index';
+import { latestAnnualYear, MULTI_ACCOUNT_BATCH } from './company-index';
+
+// 주가 기반 지표(PER, PBR, 시가총액)가 있어 하루 지나면 다시 계산
+const FUNDAMENTALS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+function isStale(row: FundamentalsRow, year: string, now: number): boolean {
+  return row.year !== year || now - new Date(row.updatedAt).getTime() > FUNDAMENTALS_MAX_AGE_MS;
+}
+
+export class FundamentalsService {
+  private cache: ICacheManager;
+  private dartClient: DARTClient;
+  private companyIndex: CompanyIndexService;
+  private rows: Map<string, FundamentalsRow> | null;
+  private dirty: boolean;
+
+  constructor(cache: ICacheManager, dartClient: DARTClient, companyIndex: CompanyIndexService) {
+    this.cache = cache;
+    this.dartClient = dartClient;
+    this.companyIndex = companyIndex;
+    this.rows = null;
+    this.dirty = false;
+  }
+
+  async load(): Promise<Map<string, FundamentalsRow>> {
+    if (this.rows) return this.rows;
+
+    const stored = await this.cache.get<FundamentalsRow[]>(CACHE_KEYS.FUNDAMENTALS) || [];
+    this.rows = new Map(stored.map(row => [row.corpCode, row]));
+    return this.rows;
+  }
+
+  async getRows(): Promise<FundamentalsRow[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async save(): Promise<void> {
+    if (!this.rows || !this.dirty) return;
+    await this.cache.set(CACHE_KEYS.FUNDAMENTALS, Array.from(this.rows.values()), CACHE_TTL.FUNDAMENTALS);
+    this.dirty = false;
+  }
+
+  /**
+   * Build rows for up to 100 companies (다중회사 주요계정 1회 + 회사별 주가)
+   */
+  private async computeRows(companies: CompanyIndexEntry[], year: string): Promise<FundamentalsRow[]> {
+    const summaries = await this.dartClient.getMultiCompanySummaries(
+      companies.map(company => company.corpCode),
+      year,
+      REPORT_CODES.Q4,
+      'auto',
+      Object.fromEntries(companies.map(company => [company.corpCode, company.stockCode]))
+    );
+    const stockData = await Promise.all(companies.map(company =>
+      getStockData(company.stockCode).catch(() => null)
+    ));
+
+    const updatedAt = new Date().toISOString();
+    const rows = await this.load();
+
+    return companies.map((company, index) => {
+      const summary = summaries[company.corpCode];
+      const statement = summary?.statement;
+      const stock = stockData[index];
+      const price = stock && stock.price > 0 ? stock.price : null;
+      const shares = stock?.sharesOutstanding ?? 0;
+      const marketCap = price !== null && shares > 0 ? price * shares : null;
+      const ratios = summary ? calculateSummaryRatios(summary.balance, summary.statement, price, shares) : null;
+
+      const row: FundamentalsRow = {
+        corpCode: company.corpCode,
+        corpName: company.corpName,
+        stockCode: company.stockCode,
+        market: company.market,
+        industryCode: company.industryCode,
+        year,
+        fs: statement?.fsDiv ?? null,
+        price,
+        marketCap,
+        per: marketCap !== null && statement && statement.netIncome > 0 ? marketCap / statement.netIncome : null,
+        pbr: ratios?.pbr ?? null,
+        eps: ratios?.eps ?? null,
+        roe: ratios?.roe ?? null,
+        roa: ratios?.roa ?? null,
+        dividendYield: stock && stock.dividendYield > 0 ? stock.dividendYield : null,
+        operatingMargin: ratios?.operatingMargin ?? null,
+        debtRatio: ratios?.debtRatio ?? null,
+        currentRatio: ratios?.currentRatio ?? null,
+        revenue: statement?.revenue ?? null,
+        operatingProfit: statement?.operatingProfit ?? null,
+        netIncome: statement?.netIncome ?? null,
+        // 사업보고서의 전기 금액(frmtrm_amount)으로 전년 대비 증가율 계산
+        revenueGrowth: statement ? percentChange(statement.revenue, statement.priorPeriod?.revenue) : null,
+        operatingProfitGrowth: statement ? percentChange(statement.operatingProfit, statement.priorPeriod?.operatingProfit) : null,
+        netIncomeGrowth: statement ? percentChange(statement.netIncome, statement.priorPeriod?.netIncome) : null,
+        updatedAt
+      };
+      rows.set(company.corpCode, row);
+      this.dirty = true;
+      return row;
+    });
+  }
+
+  /**
+   * Rebuild missing or stale rows, oldest first
+   * 회사 목록에서 빠진 회사의 행은 제거
+   */
+  async refresh(options: { batch?: number } = {}): Promise<{ updated: number; removed: number; remaining: number }> {
+    const batch = options.batch ?? 200;
+    const year = latestAnnualYear();
+    const now = Date.now();
+    const rows = await this.load();
+    const companies = await this.companyIndex.getEntries();
+
+    const listed = new Set(companies.map(company => company.corpCode));
+    let removed = 0;
+    for (const corpCode of Array.from(rows.keys())) {
+      if (!listed.has(corpCode)) {
+        rows.delete(corpCode);
+        removed++;
+        this.dirty = true;
+      }
+    }
+
+    const due = companies
+      .filter(company => {
+        const row = rows.get(company.corpCode);
+        return !row || isStale(row, year, now);
+      })
+      .sort((a, b) =>
+        (rows.get(a.corpCode)?.updatedAt ?? '').localeCompare(rows.get(b.corpCode)?.updatedAt ?? '')
+      );
+
+    let updated = 0;
+    for (let offset = 0; offset < Math.min(batch, due.length); offset += MULTI_ACCOUNT_BATCH) {
+      const chunk = due.slice(offset, Math.min(offset + MULTI_ACCOUNT_BATCH, batch));
+      try {
+        updated += (await this.computeRows(chunk, year)).length;
+      } catch {
+        // 다음 실행에서 재시도
+      }
+    }
+
+    await this.save();
+    return { updated, removed, remaining: due.length - updated };
+  }
+}
+
+export function createFundamentalsService(
+  cache: ICacheManager,
+  dartClient: DARTClient,
+  companyIndex: CompanyIndexService
+): FundamentalsService {
+  return new FundamentalsService(cache, dartClient, companyIndex);
+}
@@ -0,0 +1,202 @@
+/**
+ * Ratio Snapshot Service
+ *
+ * KV-backed snapshot of every indexed company's extended ratios, computed from
+ * the latest annual report (fnlttMultiAcnt) and the current stock price.
+ * 업종/시장 내 백분위 계산용이며 스케줄 작업이 오래된 회사부터 조금씩 갱신
+ * (KV 키 하나에 전체 배열로 저장되므로 요청 처리 중에는 읽기만 함).
+ */
+
+import type {
+  CompanyIndexEntry,
+  CompanyInfo,
+  RatioPercentiles,
+  RatioSnapshotEntry
+} from '../types';
+import type { ICacheManager } from '../cache/cache-manager';
+import { CACHE_KEYS, CACHE_TTL } from '../cache/cache-manager';
+import type { DARTClient } from '../clients/dart-client';
+import { REPORT_CODES } from '../clients/dart-client';
+import type { StockData } from '../providers/stock-price-provider';
+import { getStockData } from '../providers/stock-price-provider';
+import { calculateSummaryRatios } from '../processors/ratio-calculator';
+import { calculateRatioPercentiles } from '../processors/ratio-percentiles';
+import type { CompanyIndexService } from './company-index';
+import { latestAnnualYear, MULTI_ACCOUNT_BATCH } from './company-index';
+
+// 주가가 반영되는 비율(PBR 등)이 있어 1주일 지나면 다시 계산
+const SNAPSHOT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+type SnapshotCompany = Pick<CompanyIndexEntry, 'corpCode' | 'stockCode' | 'industryCode' | 'market'>;
+
+function isStale(entry: RatioSnapshotEntry, year: string, now: number): boolean {
+  return entry.year !== year || now - new Date(entry.updatedAt).getTime() > SNAPSHOT_MAX_AGE_MS;
+}
+
+export class RatioSnapshotService {
+  private cache: ICacheManager;
+  private dartClient: DARTClient;
+  private companyIndex: CompanyIndexService;
+  private entries: Map<string, RatioSnapshotEntry> | null;
+  private dirty: boolean;
+
+  constructor(cache: ICacheManager, dartClient: DARTClient, companyIndex: CompanyIndexService) {
+    this.cache = cache;
+    this.dartClient = dartClient;
+    this.companyIndex = companyIndex;
+    this.entries = null;
+    this.dirty = false;
+  }
+
+  async load(): Promise<Map<string, RatioSnapshotEntry>> {
+    if (this.entries) return this.entries;
+
+    const stored = await this.cache.get<RatioSnapshotEntry[]>(CACHE_KEYS.RATIO_SNAPSHOT) || [];
+    this.entries = new Map(stored.map(entry => [entry.corpCode, entry]));
+    return this.entries;
+  }
+
+  async getEntries(): Promise<RatioSnapshotEntry[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async save(): Promise<void> {
+    if (!this.entries || !this.dirty) return;
+    await this.cache.set(CACHE_KEYS.RATIO_SNAPSHOT, Array.from(this.entries.values()), CACHE_TTL.RATIO_SNAPSHOT);
+    this.dirty = false;
+  }
+
+  /**
+   * Compute snapshot entries for up to 100 companies (다중회사 주요계정 1회 + 회사별 주가)
+   * stocks: 이미 조회한 주가 데이터 (corpCode → StockData)
+   */
+  private async computeEntries(
+    companies: SnapshotCompany[],
+    year: string,
+    stocks: Record<string, StockData> = {}
+  ): Promise<RatioSnapshotEntry[]> {
+    const summaries = await this.dartClient.getMultiCompanySummaries(
+      companies.map(company => company.corpCode),
+      year,
+      REPORT_CODES.Q4,
+      'auto',
+      Object.fromEntries(companies.map(company => [company.corpCode, company.stockCode]))
+    );
+
+    // 재무정보가 있는 회사만 주가 조회
+    const stockData = await Promise.all(companies.map(company =>
+      stocks[company.corpCode]
+        ?? (summaries[company.corpCode] && company.stockCode ? getStockData(company.stockCode).catch(() => null) : null)
+    ));
+
+    const updatedAt = new Date().toISOString();
+
+    return companies.map((company, index) => {
+      const summary = summaries[company.corpCode];
+      const stock = stockData[index];
+      return {
+        corpCode: company.corpCode,
+        industryCode: company.industryCode,
+        market: company.market || null,
+        year,
+        ratios: summary
+          ? calculateSummaryRatios(
+              summary.balance,
+              summary.statement,
+              stock && stock.price > 0 ? stock.price : null,
+              stock?.sharesOutstanding ?? 0
+            )
+          : null,
+        updatedAt
+      };
+    });
+  }
+
+  /**
+   * Recompute missing or stale entries, oldest first
+   */
+  async refresh(options: { batch?: number } = {}): Promise<{ updated: number }> {
+    const batch = options.batch ?? 20;
+    const year = latestAnnualYear();
+    const now = Date.now();
+    const entries = await this.load();
+
+    // 업종/시장을 확인한 회사만 대상
+    const due = (await this.companyIndex.getEntries())
+      .filter(company => company.industryUpdatedAt && company.stockCode)
+      .filter(company => {
+        const entry = entries.get(company.corpCode);
+        return !entry || isStale(entry, year, now);
+      })
+      .sort((a, b) =>
+        (entries.get(a.corpCode)?.updatedAt ?? '').localeCompare(entries.get(b.corpCode)?.updatedAt ?? '')
+      )
+      .slice(0, batch);
+
+    let updated = 0;
+    for (let offset = 0; offset < due.length; offset += MULTI_ACCOUNT_BATCH) {
+      try {
+        for (const entry of await this.computeEntries(due.slice(offset, offset + MULTI_ACCOUNT_BATCH), year)) {
+          entries.set(entry.corpCode, entry);
+          updated++;
+        }
+        if (updated > 0) this.dirty = true;
+      } catch {
+        // 다음 갱신에서 재시도
+      }
+    }
+
+    await this.save();
+    return { updated };
+  }
+
+  /**
+   * Percentiles of a company's ratios within its industry and market
+   * 스냅샷에 없거나 오래된 회사는 즉시 계산해 비교 (스냅샷에는 저장하지 않음)
+   */
+  async getPercentiles(info: CompanyInfo, stock?: StockData): Promise<RatioPercentiles> {
+    const year = latestAnnualYear();
+    const entries = await this.load();
+    const company: SnapshotCompany = {
+      corpCode: info.corpCode,
+      stockCode: info.stockCode,
+      industryCode: info.industry || null,
+      market: info.market
+    };
+
+    let target = entries.get(info.corpCode);
+    if (!target || isStale(target, year, Date.now())) {
+      [target] = await this.computeEntries([company], year, stock ? { [info.corpCode]: stock } : {});
+    } else {
+      target = { ...target, industryCode: company.industryCode, market: company.market };
+    }
+
+    const snapshot = Array.from(entries.values());
+    const { industryCode, ratios } = calculateRatioPercentiles(target, snapshot);
+    const current = snapshot.filter(entry => entry.year === year);
+
+    return {
+      source: 'dart-annual-report',
+      year,
+      industryCode,
+      market: target.market,
+      ratios,
+      coverage: {
+        companies: current.filter(entry => entry.ratios !== null).length,
+        total: (await this.companyIndex.getEntries()).length
+      },
+      snapshotUpdatedAt: current.reduce<string | null>(
+        (latest, entry) => (latest === null || entry.updatedAt > latest ? entry.updatedAt : latest),
+        null
+      )
+    };
+  }
+}
+
+export function createRatioSnapshotService(
+  cache: ICacheManager,
+  dartClient: DARTClient,
+  companyIndex: CompanyIndexService
+): RatioSnapshotService {
+  return new RatioSnapshotService(cache, dartClient, companyIndex);
+}
@@ -11,13 +11,16 @@ import type { Company } from '../types';
  */
 export class SearchService {
   private companies: Company[] = [];
+  private byCorpCode = new Map<string, Company>();
   private initialized: boolean = false;
 
   /**
    * Initialize search index from company list
    */
   initializeIndex(companies: Company[]): void {
-    this.companies = companies;
+    // 이전 작업이 저장한 빈 문자열 시장값은 미확인(null)으로 통일
+    this.companies = companies.map(company => company.market ? company : { ...company, market: null });
+    this.byCorpCode = new Map(this.companies.map(company => [company.corpCode, company]));
     this.initialized = true;
   }
 
@@ -96,7 +99,7 @@ export class SearchService {
    * Get company by corp code
    */
   getCompanyByCode(corpCode: string): Company | undefined {
-    return this.companies.find(c => c.corpCode === corpCode);
+    return this.byCorpCode.get(corpCode);
   }
 
   /**
@@ -106,6 +109,13 @@ export class SearchService {
     return this.companies.find(c => c.stockCode === stockCode);
   }
 
+  /**
+   * Get all indexed companies
+   */
+  getCompanies(): Company[] {
+    return this.companies;
+  }
+
   /**
    * Get total company count
    */
@@ -118,6 +128,7 @@ export class SearchService {
    */
   clearIndex(): void {
     this.companies = [];
+    this.byCorpCode.clear();
     this.initialized = false;
   }
 }
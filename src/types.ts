@@ -6,24 +6,61 @@
 export interface Env {
   DART_API_KEY: string;
   COMPANY_CACHE?: KVNamespace;
+  WATCH_CORP_CODES?: string;  // 캐시 예열 대상 corpCode (쉼표 구분)
+  DART_MAX_CONCURRENCY?: string;      // Worker 호출당 DART 동시 요청 수 (기본 4)
+  DART_REQUESTS_PER_MINUTE?: string;  // Worker 호출당 DART 분당 요청 수 (기본 300)
 }
 
 // Company data models
+export type Market = 'KOSPI' | 'KOSDAQ' | 'KONEX';
+
 export interface Company {
   corpCode: string;      // DART corporation code
   corpName: string;      // Korean company name
   stockCode: string;     // Stock ticker code
-  market: 'KOSPI' | 'KOSDAQ' | 'KONEX';
+  market: Market | null; // null: 법인구분 미확인 (corpCode.xml 목록)
 }
 
 export interface CompanyInfo {
   corpCode: string;
   corpName: string;
   stockCode: string;
-  market: 'KOSPI' | 'KOSDAQ' | 'KONEX';
+  market: Market | null;  // null: 기타법인 (corp_cls E)
   ceoName?: string;
   industry?: string;
   address?: string;
+  fiscalYearEndMonth?: number;  // 결산월 (acc_mt, 1-12)
+}
+
+// Industry models (한국표준산업분류 KSIC)
+export interface IndustryLevel {
+  level: 'section' | 'division' | 'group' | 'class' | 'subclass';  // 대/중/소/세/세세분류
+  code: string;
+  name: string | null;  // 수록되지 않은 분류는 null
+}
+
+export interface IndustryClassification {
+  code: string;
+  name: string;        // 이름이 있는 가장 세분화된 단계의 이름
+  sector: string;      // 대분류명
+  hierarchy: IndustryLevel[];
+}
+
+// KV 상장사 인덱스 항목 (업종코드, 최근 연간 매출액)
+export interface CompanyIndexEntry extends Company {
+  industryCode: string | null;
+  industryUpdatedAt: string | null;  // 기업개황 조회 시각 (null: 미조회)
+  revenue: number | null;            // 최근 사업보고서 매출액
+  revenueYear: string | null;        // 매출액 사업연도 (조회했으나 데이터가 없으면 revenue만 null)
+}
+
+export interface PeerCompany {
+  corpCode: string;
+  corpName: string;
+  stockCode: string;
+  industryCode: string | null;
+  revenue: number | null;
+  revenueYear: string | null;
 }
 
 // Financial data models
@@ -33,26 +70,76 @@ export interface FinancialStatement {
   revenue: number;           // 매출액
   operatingProfit: number;   // 영업이익
   netIncome: number;         // 당기순이익
+  operatingCashFlow: number; // 영업활동현금흐름
+  capex: number;             // 설비투자 (유형·무형자산 취득)
+  freeCashFlow: number;      // 잉여현금흐름 = 영업활동현금흐름 - 설비투자
+  fsDiv?: FinancialStatementBasis;
+  accountMapping?: AccountMappingReport;
+  rceptNo?: string;          // 값을 가져온 보고서 접수번호 (정정 시 최종 정정본)
+  priorPeriod?: Partial<Record<FlowMetric, number>>;  // 같은 보고서의 전기 동기 누적값 (frmtrm_*, 재작성 반영)
 }
 
-export interface QuarterPeriod {
+// 재무상태표 주요 계정 (기말 잔액)
+export interface BalanceSnapshot {
+  totalAssets: number | null;
+  totalLiabilities: number | null;
+  totalEquity: number | null;
+  currentAssets: number | null;
+  currentLiabilities: number | null;
+}
+
+// 다중회사 주요계정(fnlttMultiAcnt)의 회사별 기간 데이터
+export interface CompanyPeriodSummary {
+  statement: FinancialStatement;
+  balance: BalanceSnapshot;
+}
+
+// 누적으로 공시되는 손익/현금흐름 항목
+export type FlowMetric = 'revenue' | 'operatingProfit' | 'netIncome' | 'operatingCashFlow' | 'capex';
+
+export interface RestatedValue {
+  original: number;   // 해당 분기 보고서 최초 값
+  restated: number;   // 이후 보고서의 재작성 값
+  difference: number; // restated - original
+}
+
+export interface QuarterRestatement {
   year: string;
   quarter: 'Q1' | 'Q2' | 'Q3' | 'Q4';
+  label: string;
+  rceptNo: string | null;  // 재작성 값을 공시한 보고서 접수번호
+  changes: Partial<Record<FlowMetric | 'freeCashFlow', RestatedValue>>;
+}
+
+export interface QuarterPeriod {
+  year: string;                 // 사업연도 (DART bsns_year, 회계연도 시작 연도)
+  quarter: 'Q1' | 'Q2' | 'Q3' | 'Q4';  // 회계연도 기준 분기
   startDate: string;
   endDate: string;
+  fiscalYearEndMonth: number;   // 결산월 (12: 12월 결산)
+  label: string;                // 차트 라벨 (e.g., "2024-Q1", 비12월 결산은 "FY2024-Q1")
 }
 
 export interface MetricWithChange {
   value: number;
   qoqChange: number | null;  // null for first quarter
+  yoyChange: number | null;  // 전년 동기 대비 (%), 전년 동기 분기가 없으면 null
+  ttm: number | null;        // 최근 4개 분기 합계 (연속 4개 분기가 없으면 null)
+  cagr3y: number | null;     // TTM 기준 3년 연평균 성장률 (%)
+  cagr5y: number | null;     // TTM 기준 5년 연평균 성장률 (%)
   formattedValue: string;     // e.g., "1.2조" or "500억"
 }
 
 export interface ProcessedFinancialData {
+  fs: FinancialStatementBasis | null;  // 사용된 재무제표 기준
   quarters: QuarterPeriod[];
   revenue: number[];
   operatingProfit: number[];
   netIncome: number[];
+  operatingCashFlow: number[];
+  capex: number[];
+  freeCashFlow: number[];
+  restatements: QuarterRestatement[];  // 이후 보고서에서 재작성된 분기
 }
 
 export interface QoQChangeData {
@@ -60,6 +147,187 @@ export interface QoQChangeData {
   revenue: MetricWithChange[];
   operatingProfit: MetricWithChange[];
   netIncome: MetricWithChange[];
+  operatingCashFlow: MetricWithChange[];
+  capex: MetricWithChange[];
+  freeCashFlow: MetricWithChange[];
+}
+
+// DART raw account row (fnlttSinglAcnt / fnlttSinglAcntAll)
+export interface DARTAccountItem {
+  rcept_no?: string;
+  stock_code?: string;
+  reprt_code?: string;
+  bsns_year?: string;
+  corp_code?: string;
+  fs_div?: string;
+  sj_div: string;
+  sj_nm?: string;
+  account_id?: string;
+  account_nm: string;
+  account_detail?: string;
+  thstrm_nm?: string;
+  thstrm_amount?: string;
+  thstrm_add_amount?: string;
+  frmtrm_nm?: string;
+  frmtrm_amount?: string;
+  frmtrm_q_nm?: string;
+  frmtrm_q_amount?: string;
+  frmtrm_add_amount?: string;
+  bfefrmtrm_nm?: string;
+  bfefrmtrm_amount?: string;
+  ord?: string;
+  currency?: string;
+}
+
+// Account mapping models (계정 매핑)
+export type AccountMetric =
+  | 'revenue'               // 매출액
+  | 'operatingProfit'       // 영업이익
+  | 'netIncome'             // 당기순이익
+  | 'netIncomeControlling'  // 지배기업 소유주 귀속 당기순이익
+  | 'totalAssets'           // 자산총계
+  | 'totalLiabilities'      // 부채총계
+  | 'totalEquity'           // 자본총계
+  | 'equityControlling'     // 지배기업 소유주지분
+  | 'currentAssets'         // 유동자산
+  | 'currentLiabilities'    // 유동부채
+  | 'eps'                   // 기본주당이익
+  | 'operatingCashFlow'     // 영업활동현금흐름
+  | 'purchaseOfPPE'         // 유형자산의 취득
+  | 'purchaseOfIntangibles'  // 무형자산의 취득
+  | 'researchAndDevelopment' // 연구개발비 (주석, XBRL)
+  | 'depreciation';         // 감가상각비 (주석/현금흐름표 조정, XBRL)
+
+export type IndustryProfile = 'general' | 'bank' | 'insurance' | 'securities' | 'holding';
+
+export interface AccountMatch {
+  industry: IndustryProfile;          // 매칭된 규칙의 업종
+  matchedBy: 'account_id' | 'account_nm';
+  key: string;                        // 매칭된 account_id 또는 account_nm
+  accountName: string;                // 실제 계정명
+}
+
+export type AccountMappingReport = Partial<Record<AccountMetric, AccountMatch | null>>;
+
+// Full financial statement models (재무제표 전체)
+export type StatementDivision = 'BS' | 'IS' | 'CIS' | 'CF' | 'SCE' | 'NOTES';  // NOTES: XBRL 주석
+export type FinancialStatementBasis = 'CFS' | 'OFS';  // 연결 / 별도
+export type FinancialStatementMode = FinancialStatementBasis | 'auto';  // auto: 연결 없으면 별도
+
+export interface StatementLineItem {
+  accountId: string;                 // IFRS 계정 ID (e.g., "ifrs-full_Revenue")
+  accountName: string;               // 계정명
+  accountDetail: string | null;      // 자본변동표 세부 항목
+  order: number;
+  current: number | null;            // 당기 (분/반기: 3개월)
+  currentCumulative: number | null;  // 당기 누적
+  prior: number | null;              // 전기 (BS: 전기말, IS: 전년 동기)
+  priorCumulative: number | null;    // 전기 누적
+  prePrior: number | null;           // 전전기
+}
+
+export interface StatementSection {
+  division: StatementDivision;
+  name: string;                      // e.g., "재무상태표"
+  periodNames: {
+    current: string | null;          // e.g., "제 56 기"
+    prior: string | null;
+    prePrior: string | null;
+  };
+  items: StatementLineItem[];
+}
+
+export type StatementSource = 'api' | 'xbrl';  // fnlttSinglAcntAll / fnlttXbrl
+
+export interface FullFinancialStatements {
+  corpCode: string;
+  year: string;
+  reportCode: string;
+  fs: FinancialStatementBasis;
+  source?: StatementSource;
+  rceptNo: string | null;
+  currency: string;
+  statements: StatementSection[];
+}
+
+// XBRL models (fnlttXbrl)
+export interface XbrlPeriod {
+  instant?: string;                  // YYYY-MM-DD (재무상태표 등 시점)
+  start?: string;                    // 기간 (손익/현금흐름)
+  end?: string;
+}
+
+export interface XbrlFact {
+  concept: string;                   // e.g., "ifrs-full_Revenue" (account_id 형식)
+  label: string | null;
+  value: number;
+  unit: string | null;               // e.g., "KRW", "KRW/shares"
+  decimals: string | null;
+  period: XbrlPeriod;
+  dimensions: Record<string, string>; // axis -> member (e.g., 영업부문)
+}
+
+export interface XbrlFinancialStatements extends FullFinancialStatements {
+  source: 'xbrl';
+  facts: XbrlFact[];
+  memberLabels: Record<string, string>;  // 차원 멤버 → 라벨 (e.g., 부문명)
+  notes: Record<'researchAndDevelopment' | 'depreciation', number | null>;  // 주석 항목 (누적, 없으면 null)
+  accountMapping: AccountMappingReport;  // notes 항목의 계정 매핑 결과
+}
+
+// Segment models (영업부문 / 지역별)
+export type SegmentAxis = 'business' | 'region';
+
+export interface SegmentValue {
+  member: string;                    // XBRL 멤버 ID
+  name: string;
+  revenue: number | null;
+  operatingProfit: number | null;
+  isAdjustment: boolean;             // 내부거래 제거/조정/미배분 항목
+}
+
+export interface SegmentPeriod {
+  start: string;                     // YYYY-MM-DD
+  end: string;
+  months: number;                    // 3 (분기), 6, 9, 12 (누적)
+  segments: SegmentValue[];
+}
+
+export interface SegmentsResponse {
+  corpCode: string;
+  axis: SegmentAxis;
+  fs: FinancialStatementBasis;
+  year: string;
+  reportCode: string;
+  rceptNo: string | null;
+  periods: SegmentPeriod[];
+  lastUpdated: string;
+}
+
+// Comparison models (다중회사 비교)
+export interface CompareCompany {
+  corpCode: string;
+  corpName: string;
+  stockCode: string;
+  fiscalYearEndMonth: number;          // 결산월 (12월 외 결산은 분기 종료일이 속한 달력 분기에 배치)
+  fs: FinancialStatementBasis | null;
+  revenue: (number | null)[];          // periods 축에 맞춘 분기 단독값 (데이터 없으면 null)
+  operatingProfit: (number | null)[];
+  netIncome: (number | null)[];
+  ttm: {
+    revenue: number | null;
+    operatingProfit: number | null;
+    netIncome: number | null;
+  };
+  balance: BalanceSnapshot | null;     // 가장 최근 보고서 기준
+  stockPrice: number | null;
+  ratios: ExtendedFinancialRatios | null;
+}
+
+export interface CompareResponse {
+  periods: QuarterPeriod[];
+  companies: CompareCompany[];
+  lastUpdated: string;
 }
 
 // Disclosure models
@@ -68,6 +336,258 @@ export interface Disclosure {
   rcept_no: string;      // Receipt number (for linking)
   rcept_dt: string;      // Disclosure date (YYYYMMDD)
   flr_nm: string;        // Filer name
+  rm?: string;           // Remarks (유: 유가증권시장본부 소관, 정: 정정 후 공시 등)
+}
+
+// Disclosure document models (공시서류원본)
+export interface DocumentTable {
+  rows: string[][];
+}
+
+export interface DocumentSection {
+  level: number;                        // SECTION-1, SECTION-2 ... (표지 등 섹션 밖 내용은 0)
+  title: string;
+  paragraphs: string[];
+  tables: DocumentTable[];
+  children: DocumentSection[];
+}
+
+export interface DisclosureDocumentFile {
+  fileName: string;
+  title: string | null;                 // DOCUMENT-NAME
+  companyName: string | null;           // COMPANY-NAME
+  sections: DocumentSection[];
+}
+
+export interface DisclosureDocumentResponse {
+  rceptNo: string;
+  url: string;
+  files: DisclosureDocumentFile[];
+  lastUpdated: string;
+}
+
+// 공시유형: A 정기공시, B 주요사항보고, C 발행공시, D 지분공시, E 기타공시,
+// F 외부감사관련, G 펀드공시, H 자산유동화, I 거래소공시, J 공정위공시
+export type DisclosureType = 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J';
+
+export interface DisclosureSearchParams {
+  type?: DisclosureType;
+  detailType?: string;   // 공시상세유형 (e.g., "B001" 주요사항보고서)
+  from?: string;         // YYYYMMDD
+  to?: string;           // YYYYMMDD
+  page?: number;
+  pageSize?: number;     // 1-100
+  finalOnly?: boolean;   // 최종보고서만 (정정 전 원본 제외)
+}
+
+// 전체 회사 공시 피드 항목
+export interface MarketDisclosure extends Disclosure {
+  corpCode: string;
+  corpName: string;
+  stockCode: string | null;
+  market: Market | null;
+}
+
+export interface DisclosurePaging {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+// Dividend models (배당에 관한 사항)
+export interface DividendByShareClass {
+  shareClass: string;                     // 보통주, 우선주
+  dividendPerShare: number | null;        // 주당 현금배당금 (원)
+  dividendYield: number | null;           // 현금배당수익률 (%)
+  stockDividendPerShare: number | null;   // 주당 주식배당 (주)
+}
+
+export interface DividendYear {
+  year: string;
+  payoutRatio: number | null;             // 현금배당성향 (%)
+  totalCashDividends: number | null;      // 현금배당금총액 (원)
+  netIncome: number | null;               // 당기순이익 (원)
+  eps: number | null;                     // 주당순이익 (원)
+  shareClasses: DividendByShareClass[];
+  rceptNo: string | null;                 // 출처 사업보고서 접수번호
+}
+
+// Ownership models (최대주주 / 대량보유)
+export interface Shareholder {
+  name: string;
+  relation: string | null;              // 최대주주와의 관계 (본인, 특수관계인 등)
+  shareClass: string;                   // 보통주, 우선주
+  sharesAtStart: number | null;         // 기초 소유주식수
+  stakeAtStart: number | null;          // 기초 지분율 (%)
+  shares: number | null;                // 기말 소유주식수
+  stake: number | null;                 // 기말 지분율 (%)
+  note: string | null;
+}
+
+export interface OwnershipChange {
+  rceptNo: string;
+  reportDate: string;                   // YYYYMMDD
+  reporter: string;                     // 대표보고자
+  reportType: string;                   // 보고구분 (신규, 변동 등)
+  shares: number | null;                // 보유주식등의 수
+  sharesChange: number | null;
+  stake: number | null;                 // 보유비율 (%)
+  stakeChange: number | null;
+  reason: string | null;                // 보고사유
+  url: string;
+}
+
+// Insider trading models (임원·주요주주 소유보고)
+export interface InsiderTrade {
+  rceptNo: string;
+  reportDate: string;                   // YYYYMMDD
+  reporter: string;                     // 보고자
+  relationship: string;                 // e.g., "대표이사 · 등기임원"
+  position: string | null;              // 직위
+  isRegisteredExecutive: boolean;       // 등기임원 여부
+  isMajorShareholder: boolean;          // 주요주주 여부
+  sharesBefore: number | null;          // 변동 전 소유주식수
+  sharesAfter: number | null;           // 변동 후 소유주식수
+  sharesChange: number | null;          // 증감 주식수
+  stakeAfter: number | null;            // 변동 후 소유비율 (%)
+  stakeChange: number | null;
+  changeType: 'increase' | 'decrease' | 'unchanged';
+  url: string;
+}
+
+// Material event models (주요사항보고서)
+export type MaterialEventType =
+  | 'capitalIncrease'           // 유상증자 결정
+  | 'convertibleBond'           // 전환사채권 발행결정
+  | 'treasuryStockAcquisition'  // 자기주식 취득 결정
+  | 'merger'                    // 회사합병 결정
+  | 'spinOff';                  // 회사분할 결정
+
+export interface ShareCounts {
+  common: number | null;                // 보통주
+  other: number | null;                 // 기타주식 (종류주식)
+}
+
+export interface DateRange {
+  start: string | null;                 // YYYY-MM-DD
+  end: string | null;
+}
+
+// 자금조달 목적별 금액 (원)
+export interface FundingPurpose {
+  facilities: number | null;            // 시설자금
+  businessAcquisition: number | null;   // 영업양수자금
+  operating: number | null;             // 운영자금
+  debtRepayment: number | null;         // 채무상환자금
+  securitiesAcquisition: number | null; // 타법인 증권 취득자금
+  other: number | null;                 // 기타자금
+  total: number | null;
+}
+
+interface MaterialEventBase {
+  type: MaterialEventType;
+  rceptNo: string;
+  receivedDate: string;                 // 접수일 (YYYYMMDD)
+  boardDecisionDate: string | null;     // 이사회결의일
+  url: string;
+}
+
+export interface CapitalIncreaseEvent extends MaterialEventBase {
+  type: 'capitalIncrease';
+  method: string | null;                // 증자방식 (주주배정, 제3자배정 등)
+  newShares: ShareCounts;
+  sharesBefore: ShareCounts;            // 증자전 발행주식총수
+  dilutionRatio: number | null;         // 신주 / 증자전 발행주식총수 (%)
+  parValue: number | null;
+  funding: FundingPurpose;
+}
+
+export interface ConvertibleBondEvent extends MaterialEventBase {
+  type: 'convertibleBond';
+  series: string | null;                // 회차
+  faceAmount: number | null;            // 권면총액 (원)
+  couponRate: number | null;            // 표면이자율 (%)
+  yieldToMaturity: number | null;       // 만기이자율 (%)
+  maturityDate: string | null;
+  issueMethod: string | null;           // 사채발행방법 (사모, 공모)
+  conversionPrice: number | null;       // 전환가액 (원)
+  conversionPriceFloor: number | null;  // 최저 조정가액 (원)
+  conversionShares: number | null;      // 전환에 따라 발행할 주식수
+  conversionShareRatio: number | null;  // 주식총수 대비 비율 (%)
+  conversionPeriod: DateRange;
+  paymentDate: string | null;           // 납입일
+  funding: FundingPurpose;
+}
+
+export interface TreasuryStockAcquisitionEvent extends MaterialEventBase {
+  type: 'treasuryStockAcquisition';
+  plannedShares: ShareCounts;
+  plannedAmount: ShareCounts;           // 취득예정금액 (원)
+  acquisitionPeriod: DateRange;
+  holdingPeriod: DateRange;
+  purpose: string | null;
+  method: string | null;
+  broker: string | null;                // 위탁투자중개업자
+}
+
+export interface MergerEvent extends MaterialEventBase {
+  type: 'merger';
+  method: string | null;                // 합병방법
+  form: string | null;                  // 합병형태
+  purpose: string | null;
+  ratio: string | null;                 // 합병비율
+  counterparty: {
+    name: string | null;
+    business: string | null;
+    relation: string | null;            // 회사와의 관계
+  };
+  contractDate: string | null;
+  recordDate: string | null;            // 주주확정기준일
+  effectiveDate: string | null;         // 합병기일
+}
+
+export interface SpinOffEvent extends MaterialEventBase {
+  type: 'spinOff';
+  method: string | null;                // 분할방법
+  ratio: string | null;                 // 분할비율
+  transferredBusiness: string | null;   // 분할로 이전할 사업 및 재산
+  survivingCompany: string | null;      // 분할 후 존속회사
+  newCompany: {
+    name: string | null;                // 분할설립회사
+    business: string | null;
+  };
+  effectiveDate: string | null;         // 분할기일
+}
+
+export type MaterialEvent =
+  | CapitalIncreaseEvent
+  | ConvertibleBondEvent
+  | TreasuryStockAcquisitionEvent
+  | MergerEvent
+  | SpinOffEvent;
+
+// Executive models (임원 현황 / 개별 보수)
+export interface Executive {
+  name: string;
+  gender: string | null;
+  birthYearMonth: string | null;        // e.g., "1968년 06월"
+  position: string;                     // 직위
+  isRegistered: boolean;                // 등기임원 여부
+  isFullTime: boolean;                  // 상근 여부
+  responsibility: string | null;        // 담당업무
+  career: string | null;                // 주요경력
+  relationToLargestShareholder: string | null;
+  tenure: string | null;                // 재직기간
+  termExpiry: string | null;            // 임기만료일
+  compensation: number | null;          // 개별 보수 (5억원 이상 공시 대상만)
+}
+
+export interface ExecutiveCompensation {
+  name: string;
+  position: string;
+  totalPay: number | null;              // 보수총액 (원)
+  otherPay: number | null;              // 보수총액 비포함 보수 (원)
 }
 
 // Financial ratio models
@@ -102,6 +622,121 @@ export interface ExtendedFinancialRatios extends FinancialRatios {
   currentRatio: number | null;     // 유동비율 = (유동자산 / 유동부채) × 100
 }
 
+// Sector-relative ratio models (업종/시장 내 상대 위치)
+export type ExtendedRatioKey = keyof ExtendedFinancialRatios;
+
+export interface RatioDistribution {
+  percentile: number | null;  // 0~100, 그룹 내 값이 더 작은 회사 비율 (동률은 절반)
+  median: number | null;
+  count: number;              // 값이 있는 회사 수
+}
+
+export interface RatioPercentile {
+  value: number | null;       // 순위를 매긴 회사 값 (source 기준)
+  industry: RatioDistribution;
+  market: RatioDistribution;
+}
+
+// 전체 상장사 재무비율 스냅샷 (최근 사업보고서 + 현재 주가)
+export interface RatioSnapshotEntry {
+  corpCode: string;
+  industryCode: string | null;
+  market: Market | null;
+  year: string;                            // 사업연도
+  ratios: ExtendedFinancialRatios | null;  // null: 요약 재무정보 없음
+  updatedAt: string;
+}
+
+export interface RatioPercentiles {
+  source: 'dart-annual-report';      // 순위 대상 값: 사업보고서 요약 재무정보 + 현재 주가 (ratios의 네이버 증권 값과 다를 수 있음)
+  year: string;
+  industryCode: string | null;       // 비교에 사용한 업종코드 (표본이 적으면 상위 분류)
+  market: Market | null;
+  ratios: Record<ExtendedRatioKey, RatioPercentile>;
+  coverage: {
+    companies: number;   // 스냅샷에 비율이 있는 회사 수
+    total: number;       // 회사 인덱스 전체 회사 수
+  };
+  snapshotUpdatedAt: string | null;
+}
+
+// Screener models (전체 상장사 펀더멘털 테이블)
+export interface FundamentalsRow {
+  corpCode: string;
+  corpName: string;
+  stockCode: string;
+  market: Market | null;
+  industryCode: string | null;
+  year: string;                          // 최근 사업보고서 사업연도
+  fs: FinancialStatementBasis | null;    // 사용된 재무제표 기준 (null: 재무정보 없음)
+  price: number | null;
+  marketCap: number | null;
+  per: number | null;                    // 시가총액 / 당기순이익 (흑자 기업만)
+  pbr: number | null;
+  eps: number | null;
+  roe: number | null;
+  roa: number | null;
+  dividendYield: number | null;
+  operatingMargin: number | null;
+  debtRatio: number | null;
+  currentRatio: number | null;
+  revenue: number | null;
+  operatingProfit: number | null;
+  netIncome: number | null;
+  revenueGrowth: number | null;          // 전년 대비 증가율 (%)
+  operatingProfitGrowth: number | null;
+  netIncomeGrowth: number | null;
+  updatedAt: string;
+}
+
+export type ScreenerField = Exclude<keyof FundamentalsRow, 'corpCode' | 'year' | 'fs' | 'updatedAt'>;
+
+export interface ScreenerSort {
+  field: ScreenerField;
+  order: 'asc' | 'desc';
+}
+
+export interface ScreenerRequest {
+  filter?: string;        // e.g. "per < 10 AND roe > 15 AND market = KOSDAQ"
+  sort?: ScreenerSort;
+  page?: number;          // 1부터 시작
+  pageSize?: number;
+}
+
+export interface ScreenerResponse {
+  results: FundamentalsRow[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  filter: string;
+  sort: ScreenerSort;
+  coverage: {
+    screened: number;     // 펀더멘털 테이블 회사 수
+    total: number;        // 회사 인덱스 전체 회사 수
+  };
+  tableUpdatedAt: string | null;
+}
+
+// Scheduled job models (크론 작업 실행 기록)
+export type JobName = 'company-list' | 'cache-warm' | 'company-index' | 'ratio-snapshot' | 'fundamentals';
+
+export interface JobResult {
+  job: JobName;
+  cron: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: 'success' | 'failure';
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface JobsResponse {
+  jobs: JobResult[];   // 최신순
+  total: number;
+}
+
 // News models
 export interface NewsArticle {
   title: string;
@@ -120,6 +755,20 @@ export interface SearchResponse {
 export interface CompanyDetailsResponse {
   company: CompanyInfo;
   stockPrice: number;
+  formattedPrice: string;
+  industry: IndustryClassification | null;
+  peers: PeerCompany[];          // 같은 업종 상장사 (매출액 순)
+  lastUpdated: string;
+}
+
+export interface IndustryCompaniesResponse {
+  industry: IndustryClassification;
+  companies: PeerCompany[];
+  total: number;
+  coverage: {
+    indexed: number;   // 업종코드를 조회한 회사 수
+    total: number;     // 인덱스 전체 회사 수
+  };
   lastUpdated: string;
 }
 
@@ -128,16 +777,32 @@ export interface ChartDataPoint {
   revenue: number;
   operatingProfit: number;
   netIncome: number;
+  operatingCashFlow: number;
+  capex: number;
+  freeCashFlow: number;
 }
 
 export interface FinancialPerformanceResponse {
+  fs: FinancialStatementBasis | null;
+  fiscalYearEndMonth: number;
   quarters: QuarterPeriod[];
   metrics: {
     revenue: MetricWithChange[];
     operatingProfit: MetricWithChange[];
     netIncome: MetricWithChange[];
+    operatingCashFlow: MetricWithChange[];
+    capex: MetricWithChange[];
+    freeCashFlow: MetricWithChange[];
   };
   chartData: ChartDataPoint[];
+  restatements: QuarterRestatement[];
+  accountMapping: AccountMappingReport | null;  // 가장 최근 보고서의 계정 매핑 결과
+  missingPeriods: string[];                     // 조회에 실패해 계산에서 제외된 분기 라벨
+}
+
+export interface StatementsResponse extends FullFinancialStatements {
+  facts?: XbrlFact[];                // source=xbrl: 차원(부문 등) 포함 전체 팩트
+  lastUpdated: string;
 }
 
 export interface RatiosResponse {
@@ -148,6 +813,62 @@ export interface RatiosResponse {
 export interface DisclosuresResponse {
   disclosures: Disclosure[];
   total: number;
+  paging?: DisclosurePaging;
+}
+
+export interface MarketDisclosuresResponse {
+  from: string;
+  to: string;
+  disclosures: MarketDisclosure[];
+  total: number;
+  paging: DisclosurePaging;
+  lastUpdated: string;
+}
+
+export interface DividendsResponse {
+  corpCode: string;
+  history: DividendYear[];
+  total: number;
+  lastUpdated: string;
+}
+
+export interface OwnershipResponse {
+  corpCode: string;
+  largestShareholders: {
+    year: string | null;
+    reportCode: string | null;
+    holders: Shareholder[];
+    totalStake: number | null;          // 최대주주 및 특수관계인 합계 지분율
+  };
+  majorHolders: OwnershipChange[];      // 현재 5% 이상 보유자 (보고자별 최신 보고)
+  timeline: OwnershipChange[];
+  lastUpdated: string;
+}
+
+export interface InsiderTradesResponse {
+  trades: InsiderTrade[];
+  total: number;  // 기간 내 전체 건수 (limit 적용 전)
+}
+
+export interface MaterialEventsResponse {
+  corpCode: string;
+  from: string;
+  to: string;
+  events: MaterialEvent[];
+  total: number;
+  lastUpdated: string;
+}
+
+export interface ExecutivesResponse {
+  corpCode: string;
+  roster: { year: string | null; reportCode: string | null };
+  board: Executive[];                   // 등기임원 (이사회)
+  executives: Executive[];              // 미등기임원 포함 전체
+  compensation: {
+    year: string | null;
+    individuals: ExecutiveCompensation[];
+  };
+  lastUpdated: string;
 }
 
 export interface NewsResponse {